@@ -0,0 +1,93 @@
+import React, { useRef, useState } from "react";
+import { Download, Upload, Database } from "lucide-react";
+import { SmokeRecord, AppSettings, QuitPlan, SavingsGoal, BreakRecord, PackPurchase } from "../types";
+import { BackupError, exportJSON, exportCSV, parseBackup, mergeRecords, dedupeRecords, downloadFile } from "../utils/backup";
+import { useI18n } from "../utils/i18n";
+
+type ImportMode = "merge" | "replace";
+
+export const BackupPanel = ({ history, settings, plan, goals, breaks, purchases, onImport }: {
+  history: SmokeRecord[],
+  settings: AppSettings,
+  plan: QuitPlan | null,
+  goals: SavingsGoal[],
+  breaks: BreakRecord[],
+  purchases: PackPurchase[],
+  onImport: (records: SmokeRecord[], settings?: AppSettings, plan?: QuitPlan | null, goals?: SavingsGoal[], breaks?: BreakRecord[], purchases?: PackPurchase[]) => void,
+}) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const stamp = () => new Date().toISOString().slice(0, 10);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parseBackup(await file.text(), file.name);
+      const skipped = parsed.invalid > 0 ? ` ${t("backup.invalidSkipped", { n: parsed.invalid })}` : "";
+
+      if (mode === "replace") {
+        const records = dedupeRecords(parsed.records);
+        if (!confirm(t("backup.replaceConfirm", { current: history.length, incoming: records.length, file: file.name }))) return;
+        onImport(records, parsed.settings, parsed.plan, parsed.goals, parsed.breaks, parsed.purchases);
+        alert(t("backup.imported", { n: records.length }) + skipped);
+      } else {
+        const { records, added } = mergeRecords(history, parsed.records);
+        onImport(records);
+        alert(t("backup.added", { added, duplicates: parsed.records.length - added }) + skipped);
+      }
+    } catch (error) {
+      const reason = error instanceof BackupError ? t(`backup.error.${error.code}`) : error instanceof Error ? error.message : String(error);
+      alert(t("backup.failed", { reason }));
+    }
+  };
+
+  return (
+    <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+      <div className="flex items-center gap-2 mb-4 text-purple-400">
+        <Database className="w-5 h-5" />
+        <span className="font-bold">{t("backup.title")}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={() => downloadFile(`smoke-backup-${stamp()}.json`, exportJSON(history, settings, plan, goals, breaks, purchases), "application/json")}
+          className="flex items-center justify-center gap-2 py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition"
+        >
+          <Download className="w-4 h-4" /> JSON
+        </button>
+        <button
+          onClick={() => downloadFile(`smoke-records-${stamp()}.csv`, exportCSV(history), "text/csv")}
+          className="flex items-center justify-center gap-2 py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition"
+        >
+          <Download className="w-4 h-4" /> CSV
+        </button>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        {(["merge", "replace"] as ImportMode[]).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`flex-1 py-2 rounded-lg text-sm transition ${mode === m ? "bg-purple-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+          >
+            {t(`backup.mode.${m}`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-gray-500 text-xs mt-2">
+        {t(`backup.mode.${mode}Hint`)}
+      </p>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full flex items-center justify-center gap-2 mt-3 py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition"
+      >
+        <Upload className="w-4 h-4" /> {t("backup.import")}
+      </button>
+      <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import React, { useState } from "react";
+import { X, Plus, Pencil, Trash2, ChevronUp, ChevronDown, RotateCcw, Package } from "lucide-react";
+import { Brand, BrandAppearance, FilterTexture, StickType } from "../types";
+import { STICK_TYPES } from "../constants";
+import { styleFromAppearance, stickTypeOf, stickSpec } from "../utils/brands";
+import { useI18n } from "../utils/i18n";
+
+interface BrandDraft {
+  name: string;
+  subName: string;
+  priceMode: "stick" | "pack";
+  price: string;
+  packSize: string;
+  appearance: BrandAppearance;
+  hasRing: boolean;
+  stickType: StickType;
+  burnSeconds: string; // "" = the stick type's default
+}
+
+const DEFAULT_APPEARANCE: BrandAppearance = {
+  filterColor: "#d4a373",
+  filterTexture: "plain",
+  bodyColor: "#ffffff",
+  textColor: "#000000",
+  slim: false,
+};
+
+const draftFromBrand = (brand?: Brand): BrandDraft => {
+  if (!brand) {
+    return { name: "", subName: "", priceMode: "stick", price: "", packSize: "20", appearance: DEFAULT_APPEARANCE, hasRing: false, stickType: "regular", burnSeconds: "" };
+  }
+  const byPack = brand.packPrice !== undefined && brand.packSize !== undefined;
+  return {
+    name: brand.name,
+    subName: brand.subName,
+    priceMode: byPack ? "pack" : "stick",
+    price: String(byPack ? brand.packPrice : brand.pricePerStick),
+    packSize: String(brand.packSize ?? 20),
+    appearance: brand.appearance ?? DEFAULT_APPEARANCE,
+    hasRing: !!brand.appearance?.ringColor,
+    stickType: stickTypeOf(brand),
+    burnSeconds: brand.burnMs !== undefined ? String(brand.burnMs / 1000) : "",
+  };
+};
+
+const brandFromDraft = (draft: BrandDraft, base?: Brand): Brand | null => {
+  const name = draft.name.trim();
+  const price = parseFloat(draft.price);
+  const packSize = parseInt(draft.packSize);
+  const burnSeconds = parseFloat(draft.burnSeconds);
+  if (!name || !(price > 0)) return null;
+  if (draft.priceMode === "pack" && !(packSize > 0)) return null;
+  if (draft.burnSeconds.trim() && !(burnSeconds > 0)) return null;
+
+  const appearance: BrandAppearance = {
+    ...draft.appearance,
+    slim: draft.stickType === "slim",
+    ringColor: draft.hasRing ? draft.appearance.ringColor ?? "#facc15" : undefined,
+  };
+  const byPack = draft.priceMode === "pack";
+
+  return {
+    id: base?.id ?? `custom_${Date.now()}`,
+    name,
+    subName: draft.subName.trim(),
+    pricePerStick: byPack ? Math.round((price / packSize) * 100) / 100 : price,
+    packPrice: byPack ? price : undefined,
+    packSize: byPack ? packSize : undefined,
+    ...styleFromAppearance(appearance, draft.stickType),
+    appearance,
+    stickType: draft.stickType,
+    burnMs: draft.burnSeconds.trim() ? Math.round(burnSeconds * 1000) : undefined,
+    custom: base ? base.custom : true,
+  };
+};
+
+const SWATCH_WIDTHS: Record<StickType, string> = { slim: "w-1.5", regular: "w-2.5", king: "w-2.5", cigar: "w-4", heated: "w-2" };
+
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-orange-500 focus:outline-none";
+
+const ColorField = ({ label, value, onChange }: { label: string, value: string, onChange: (v: string) => void }) => (
+  <label className="flex items-center justify-between gap-3 p-3 bg-neutral-800 rounded-lg border border-neutral-700">
+    <span className="text-sm text-gray-300">{label}</span>
+    <input type="color" value={value} onChange={(e) => onChange(e.target.value)} className="w-10 h-8 bg-transparent" />
+  </label>
+);
+
+// A tiny side view at a tenth of the rendered size.
+const BrandSwatch = ({ brand }: { brand: Brand }) => {
+  const spec = stickSpec(brand);
+  return (
+    <div className="w-4 h-12 shrink-0 flex items-end justify-center">
+      <div className={`flex flex-col-reverse ${SWATCH_WIDTHS[stickTypeOf(brand)]} rounded-sm overflow-hidden`}>
+        {spec.filterHeight > 0 && <div style={{ height: `${spec.filterHeight / 10}px`, ...brand.filterStyle }}></div>}
+        <div className={`bg-gradient-to-r ${brand.bodyColor}`} style={{ height: `${spec.tobaccoHeight / 10}px`, ...brand.bodyStyle }}></div>
+      </div>
+    </div>
+  );
+};
+
+export const BrandEditor = ({ brands, onChange, onRestore, onClose }: {
+  brands: Brand[],
+  onChange: (brands: Brand[]) => void,
+  onRestore: () => void,
+  onClose: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BrandDraft | null>(null);
+
+  const openEditor = (brand?: Brand) => {
+    setEditingId(brand?.id ?? null);
+    setDraft(draftFromBrand(brand));
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const base = brands.find((b) => b.id === editingId);
+    const brand = brandFromDraft(draft, base);
+    if (!brand) return;
+    onChange(base ? brands.map((b) => (b.id === base.id ? brand : b)) : [...brands, brand]);
+    closeEditor();
+  };
+
+  const moveBrand = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= brands.length) return;
+    const next = [...brands];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const deleteBrand = (id: string) => {
+    if (brands.length <= 1) return;
+    onChange(brands.filter((b) => b.id !== id));
+  };
+
+  const restoreDefaults = () => {
+    if (!confirm(t("brands.restoreConfirm"))) return;
+    onRestore();
+  };
+
+  const setAppearance = (patch: Partial<BrandAppearance>) => {
+    if (!draft) return;
+    setDraft({ ...draft, appearance: { ...draft.appearance, ...patch } });
+  };
+
+  const draftValid = !!draft && !!brandFromDraft(draft);
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><Package /> {t("brands.title")}</h2>
+        <button onClick={draft ? closeEditor : onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      {draft ? (
+        <div className="flex-1 overflow-y-auto space-y-4 scrollbar-hide">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("brands.name")}</label>
+              <input className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("brands.subName")}</label>
+              <input className={inputClass} value={draft.subName} onChange={(e) => setDraft({ ...draft, subName: e.target.value })} />
+            </div>
+          </div>
+
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-4">
+            <div className="flex gap-2">
+              {(["stick", "pack"] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setDraft({ ...draft, priceMode: mode })}
+                  className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${draft.priceMode === mode ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+                >
+                  {t(`brands.per.${mode}`)}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-xs text-gray-500 mb-1 block">{t("brands.price", { symbol: i18n.currencySymbol })}</label>
+                <input type="number" min="0" step="0.1" className={inputClass} value={draft.price} onChange={(e) => setDraft({ ...draft, price: e.target.value })} />
+              </div>
+              {draft.priceMode === "pack" && (
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">{t("brands.packSize")}</label>
+                  <input type="number" min="1" step="1" className={inputClass} value={draft.packSize} onChange={(e) => setDraft({ ...draft, packSize: e.target.value })} />
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-4">
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("brands.stickType")}</label>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(STICK_TYPES) as StickType[]).map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => setDraft({ ...draft, stickType: type })}
+                    className={`py-2 rounded-lg text-sm transition ${draft.stickType === type ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+                  >
+                    {t(`brands.stick.${type}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("brands.burnTime")}</label>
+              <input
+                type="number" min="1" step="1" className={inputClass}
+                placeholder={String(STICK_TYPES[draft.stickType].burnMs / 1000)}
+                value={draft.burnSeconds}
+                onChange={(e) => setDraft({ ...draft, burnSeconds: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-3">
+            <ColorField label={t("brands.filterColor")} value={draft.appearance.filterColor} onChange={(v) => setAppearance({ filterColor: v })} />
+            <div className="flex gap-2">
+              {(["plain", "cork", "striped"] as FilterTexture[]).map((texture) => (
+                <button
+                  key={texture}
+                  onClick={() => setAppearance({ filterTexture: texture })}
+                  className={`flex-1 py-2 rounded-lg text-sm transition ${draft.appearance.filterTexture === texture ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+                >
+                  {t(`brands.texture.${texture}`)}
+                </button>
+              ))}
+            </div>
+            <ColorField label={t("brands.bodyColor")} value={draft.appearance.bodyColor} onChange={(v) => setAppearance({ bodyColor: v })} />
+            <ColorField label={t("brands.textColor")} value={draft.appearance.textColor} onChange={(v) => setAppearance({ textColor: v })} />
+            <label className="flex items-center justify-between p-3 bg-neutral-800 rounded-lg border border-neutral-700">
+              <span className="text-sm text-gray-300">{t("brands.ring")}</span>
+              <input type="checkbox" checked={draft.hasRing} onChange={(e) => setDraft({ ...draft, hasRing: e.target.checked })} />
+            </label>
+            {draft.hasRing && (
+              <ColorField label={t("brands.ringColor")} value={draft.appearance.ringColor ?? "#facc15"} onChange={(v) => setAppearance({ ringColor: v })} />
+            )}
+          </div>
+
+          <button
+            onClick={saveDraft}
+            disabled={!draftValid}
+            className="w-full py-4 bg-white text-black font-bold rounded-xl active:scale-95 transition disabled:opacity-40"
+          >
+            {t("common.save")}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto space-y-3 scrollbar-hide">
+            {brands.map((b, i) => (
+              <div key={b.id} className="flex items-center gap-3 p-4 bg-neutral-900 rounded-lg border border-neutral-800">
+                <BrandSwatch brand={b} />
+                <div className="flex-1 min-w-0">
+                  <div className="text-white font-medium truncate">{b.name} <span className="text-neutral-500 text-sm">{b.subName}</span></div>
+                  <div className="text-xs text-yellow-400 font-mono">{t("brands.perStickPrice", { price: i18n.money(b.pricePerStick) })}</div>
+                </div>
+                <button onClick={() => moveBrand(i, -1)} aria-label={t("common.moveUp")} disabled={i === 0} className="p-1 text-gray-400 disabled:opacity-20"><ChevronUp className="w-4 h-4" /></button>
+                <button onClick={() => moveBrand(i, 1)} aria-label={t("common.moveDown")} disabled={i === brands.length - 1} className="p-1 text-gray-400 disabled:opacity-20"><ChevronDown className="w-4 h-4" /></button>
+                <button onClick={() => openEditor(b)} aria-label={t("common.edit")} className="p-1 text-gray-400"><Pencil className="w-4 h-4" /></button>
+                <button onClick={() => deleteBrand(b.id)} aria-label={t("common.delete")} disabled={brands.length <= 1} className="p-1 text-red-400 disabled:opacity-20"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-3 mt-6">
+            <button onClick={restoreDefaults} className="flex items-center justify-center gap-2 py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition">
+              <RotateCcw className="w-4 h-4" /> {t("brands.restore")}
+            </button>
+            <button onClick={() => openEditor()} className="flex items-center justify-center gap-2 py-3 bg-orange-600 hover:bg-orange-500 rounded-lg text-sm font-medium transition">
+              <Plus className="w-4 h-4" /> {t("brands.add")}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from "react";
+import { X, Coffee, CalendarDays, Timer, Hourglass } from "lucide-react";
+import { BreakRecord } from "../types";
+import { BarChart, StatCard } from "./StatsDashboard";
+import { BREAK_ICONS } from "./BreakTimer";
+import { breakStats, breakTypeCounts, dailyBreaks } from "../utils/breaks";
+import { useI18n } from "../utils/i18n";
+
+const DAYS_SHOWN = 14;
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: "medium", timeStyle: "short" };
+
+// Break mode's history and stats, kept apart from the smoking records.
+export const BreakLog = ({ breaks, onClose }: { breaks: BreakRecord[], onClose: () => void }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const stats = breakStats(breaks);
+  const days = dailyBreaks(breaks, DAYS_SHOWN);
+  const types = breakTypeCounts(breaks);
+  const topTypeCount = types[0]?.count ?? 1;
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><Coffee /> {t("break.log")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-6 scrollbar-hide">
+        {breaks.length === 0 && <p className="text-neutral-500 text-center mt-10">{t("break.empty")}</p>}
+
+        <div className="grid grid-cols-3 gap-3">
+          <StatCard icon={<CalendarDays className="w-3 h-3" />} label={t("break.perDay")} value={i18n.number(stats.perDay, 1)} />
+          <StatCard icon={<Timer className="w-3 h-3" />} label={t("break.average")} value={stats.averageMs === null ? "—" : i18n.duration(stats.averageMs, "s")} />
+          <StatCard icon={<Hourglass className="w-3 h-3" />} label={t("break.longestFocus")} value={stats.longestFocusMs === null ? "—" : i18n.duration(stats.longestFocusMs)} />
+        </div>
+
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+          <div className="flex justify-between items-baseline mb-2">
+            <p className="text-xs text-gray-500">{t("break.daily")}</p>
+            <p className="text-xs text-sky-400 font-mono">{t("break.today", { n: stats.today })}</p>
+          </div>
+          <BarChart
+            values={days.map((d) => d.count)}
+            labels={days.map((d) => i18n.date(d.start, { month: "numeric", day: "numeric" }))}
+            color="#38bdf8"
+            format={(v) => `${v}`}
+          />
+        </div>
+
+        {types.length > 0 && (
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-3">
+            <p className="text-xs text-gray-500">{t("break.byType")}</p>
+            {types.map((c) => (
+              <div key={c.type}>
+                <div className="flex justify-between text-sm">
+                  <span>{t(`break.type.${c.type}`)}</span>
+                  <span className="font-mono text-gray-400">{c.count}</span>
+                </div>
+                <div className="h-1.5 mt-1 bg-neutral-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-sky-400" style={{ width: `${(c.count / topTypeCount) * 100}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {breaks.map((b) => {
+            const Icon = BREAK_ICONS[b.type];
+            return (
+              <div key={b.id} className="flex justify-between items-center p-4 bg-neutral-900 rounded-lg border border-neutral-800">
+                <div className="flex items-center gap-3">
+                  <Icon className="w-4 h-4 text-sky-400" />
+                  <div><div className="text-white font-medium">{t(`break.type.${b.type}`)}</div><div className="text-xs text-neutral-500">{i18n.date(b.timestamp, DATE_FORMAT)}</div></div>
+                </div>
+                <div className="text-sky-300 font-mono">{i18n.duration(b.durationMs, "s")}</div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
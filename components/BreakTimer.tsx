@@ -0,0 +1,53 @@
+import React from "react";
+import { Footprints, PersonStanding, GlassWater, Trees } from "lucide-react";
+import { BreakType } from "../types";
+import { useI18n } from "../utils/i18n";
+
+export const BREAK_ICONS: Record<BreakType, React.ComponentType<{ className?: string }>> = {
+  walk: Footprints,
+  stretch: PersonStanding,
+  water: GlassWater,
+  air: Trees,
+};
+
+const RADIUS = 110;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Break mode's stand-in for the cigarette: a ring that fills over the break length.
+export const BreakTimer = ({ type, elapsedMs, targetMs, active }: {
+  type: BreakType,
+  elapsedMs: number,
+  targetMs: number,
+  active: boolean,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const Icon = BREAK_ICONS[type];
+  const progress = Math.min(1, elapsedMs / targetMs);
+  const done = active && elapsedMs >= targetMs;
+
+  return (
+    <div className="relative w-64 h-64 flex items-center justify-center">
+      <svg viewBox="0 0 240 240" className="absolute inset-0 w-full h-full -rotate-90">
+        <circle cx="120" cy="120" r={RADIUS} fill="none" stroke="#262626" strokeWidth="8" />
+        <circle
+          cx="120" cy="120" r={RADIUS} fill="none"
+          stroke={done ? "#34d399" : "#38bdf8"} strokeWidth="8" strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - progress)}
+          style={{ transition: "stroke-dashoffset 1s linear" }}
+        />
+      </svg>
+      <div className={`absolute inset-10 rounded-full bg-sky-400/10 ${active ? "animate-pulse" : ""}`}></div>
+      <div className="relative flex flex-col items-center">
+        <Icon className={`w-12 h-12 ${done ? "text-emerald-300" : "text-sky-300"}`} />
+        <span className="mt-3 font-mono text-3xl text-white">
+          {active ? i18n.duration(Math.max(0, targetMs - elapsedMs), "s") : i18n.duration(targetMs)}
+        </span>
+        <span className="text-[10px] text-gray-500 uppercase tracking-[0.2em] mt-1">
+          {done ? t("break.timeUp") : t(`break.type.${type}`)}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from "react";
+import { BreathState } from "../utils/breathing";
+import { useI18n } from "../utils/i18n";
+
+// Ring scale follows the breath: grows on inhale, stays full on hold, shrinks on exhale.
+const ringScale = (state: BreathState) => {
+  switch (state.phase) {
+    case "inhale": return 0.5 + 0.5 * state.phaseProgress;
+    case "hold": return 1;
+    case "exhale": return 1 - 0.5 * state.phaseProgress;
+    case "rest": return 0.5;
+  }
+};
+
+export const BreathingCoach = ({ state }: { state: BreathState }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="absolute bottom-4 left-0 right-0 flex flex-col items-center z-20 pointer-events-none animate-fade-in">
+      <div className="relative w-20 h-20 flex items-center justify-center">
+        <div className="absolute inset-0 rounded-full border border-sky-400/20"></div>
+        <div
+          className={`absolute inset-0 rounded-full ${state.phase === "exhale" ? "bg-sky-300/20" : "bg-sky-400/30"} shadow-[0_0_25px_rgba(56,189,248,0.35)]`}
+          style={{ transform: `scale(${ringScale(state)})`, transition: "transform 0.1s linear" }}
+        ></div>
+        <span className="relative font-mono text-lg text-sky-100">{state.secondsLeft}</span>
+      </div>
+      <p className="mt-2 text-sm text-sky-200 tracking-wide">{t(`breath.${state.phase}`)}</p>
+      <p className="text-[10px] text-gray-500 uppercase tracking-[0.2em]">{t("breath.count", { n: state.cycles })}</p>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from "react";
+import { SmokeRecord } from "../types";
+import { calendarWeeks } from "../utils/stats";
+import { useI18n } from "../utils/i18n";
+
+const WEEKS = 18;
+
+const level = (count: number) =>
+  count === 0 ? "bg-neutral-800" : count === 1 ? "bg-orange-900" : count <= 3 ? "bg-orange-700" : count <= 6 ? "bg-orange-500" : "bg-orange-300";
+
+// GitHub-style grid of daily sessions: a column per week, Monday at the top.
+export const CalendarHeatmap = ({ records, selected, onSelect }: {
+  records: SmokeRecord[],
+  selected: string | null, // day key
+  onSelect: (day: string | null) => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const weeks = calendarWeeks(records, WEEKS);
+
+  return (
+    <div className="p-4 bg-neutral-900 rounded-xl border border-neutral-800">
+      <div className="flex gap-1 justify-between">
+        {weeks.map((week) => (
+          <div key={week[0].key} className="flex flex-col gap-1 flex-1">
+            {week.map((day) => {
+              const label = t("history.dayCount", { date: i18n.date(day.date, { dateStyle: "medium" }), n: day.count });
+              return (
+                <button
+                  key={day.key}
+                  disabled={day.future}
+                  onClick={() => onSelect(selected === day.key ? null : day.key)}
+                  title={label}
+                  aria-label={label}
+                  aria-pressed={selected === day.key}
+                  className={`aspect-square w-full rounded-sm transition ${day.future ? "opacity-0" : level(day.count)} ${selected === day.key ? "ring-2 ring-white" : ""}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between items-center mt-2 text-[10px] text-gray-500">
+        <span>{i18n.date(weeks[0][0].date, { month: "short", day: "numeric" })}</span>
+        <div className="flex items-center gap-1">
+          {t("history.less")}
+          {[0, 1, 2, 4, 7].map((n) => <span key={n} className={`w-2.5 h-2.5 rounded-sm ${level(n)}`}></span>)}
+          {t("history.more")}
+        </div>
+      </div>
+    </div>
+  );
+};
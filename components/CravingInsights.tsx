@@ -0,0 +1,70 @@
+import React from "react";
+import { SmokeRecord } from "../types";
+import { triggerStats, cravingDrop, cravingByHour, triggerLabel, TIME_OF_DAY } from "../utils/cravings";
+import { useI18n } from "../utils/i18n";
+
+export const CravingInsights = ({ history }: { history: SmokeRecord[] }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const triggers = triggerStats(history);
+  const drop = cravingDrop(history);
+  const byHour = cravingByHour(history);
+  const topCount = triggers[0]?.count ?? 1;
+
+  if (triggers.length === 0 && !drop) {
+    return <p className="text-neutral-500 text-center mt-10">{t("craving.empty")}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {drop && (
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 text-center">
+          <p className="text-[10px] text-gray-500 uppercase tracking-[0.2em]">{t("craving.typicalDrop")}</p>
+          <p className="text-4xl font-bold font-mono text-emerald-400 mt-2">
+            {drop.averageDrop >= 0 ? "−" : "+"}{i18n.number(Math.abs(drop.averageDrop), 1)}
+          </p>
+          <p className="text-sm text-gray-400 mt-1">
+            {t("craving.dropDetail", { before: i18n.number(drop.averageBefore, 1), after: i18n.number(drop.averageAfter, 1), n: drop.sessions })}
+          </p>
+        </div>
+      )}
+
+      {triggers.length > 0 && (
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-4">
+          <p className="text-xs text-gray-500">{t("craving.topTriggers")}</p>
+          {triggers.map((s) => {
+            const peak = s.byTimeOfDay.indexOf(Math.max(...s.byTimeOfDay));
+            return (
+              <div key={s.trigger}>
+                <div className="flex justify-between text-sm">
+                  <span className="capitalize">{triggerLabel(i18n, s.trigger)}</span>
+                  <span className="font-mono text-gray-400">{s.count} · <span className="text-orange-300">{t(`craving.${TIME_OF_DAY[peak]}`)}</span></span>
+                </div>
+                <div className="h-1.5 mt-1 bg-neutral-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-orange-500" style={{ width: `${(s.count / topCount) * 100}%` }}></div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {byHour.some((v) => v !== null) && (
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+          <p className="text-xs text-gray-500 mb-3">{t("craving.byHour")}</p>
+          <div className="grid grid-cols-12 gap-1">
+            {byHour.map((v, h) => (
+              <div
+                key={h}
+                title={`${h}:00 ${v !== null ? i18n.number(v, 1) : "—"}`}
+                className="aspect-square rounded-sm bg-orange-500"
+                style={{ opacity: v === null ? 0.06 : 0.15 + (v / 10) * 0.85 }}
+              ></div>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-600 mt-1"><span>0:00</span><span>23:00</span></div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from "react";
+import { Flame, Plus } from "lucide-react";
+import { CravingEntry, DEFAULT_TRIGGERS, triggerLabel } from "../utils/cravings";
+import { useI18n } from "../utils/i18n";
+
+export const CravingScale = ({ value, onChange }: { value: number | null, onChange: (v: number) => void }) => (
+  <div className="grid grid-cols-10 gap-1">
+    {Array.from({ length: 10 }, (_, i) => i + 1).map((n) => (
+      <button
+        key={n}
+        onClick={() => onChange(n)}
+        className={`py-2 rounded text-sm font-mono transition ${value === n ? "bg-orange-500 text-black font-bold" : value !== null && n < value ? "bg-orange-900/60 text-orange-200" : "bg-neutral-800 text-gray-400"}`}
+      >
+        {n}
+      </button>
+    ))}
+  </div>
+);
+
+// Optional journal step before lighting up: how strong is the craving, and why.
+export const CravingPrompt = ({ customTriggers, onAddTrigger, onSubmit, onSkip, onCancel }: {
+  customTriggers: string[],
+  onAddTrigger: (trigger: string) => void,
+  onSubmit: (entry: CravingEntry) => void,
+  onSkip: () => void,
+  onCancel: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [intensity, setIntensity] = useState<number | null>(null);
+  const [triggers, setTriggers] = useState<string[]>([]);
+  const [newTrigger, setNewTrigger] = useState("");
+
+  const toggle = (trigger: string) => {
+    setTriggers(triggers.includes(trigger) ? triggers.filter((t) => t !== trigger) : [...triggers, trigger]);
+  };
+
+  const addTrigger = () => {
+    const trigger = newTrigger.trim().toLowerCase();
+    if (!trigger) return;
+    if (![...DEFAULT_TRIGGERS, ...customTriggers].includes(trigger)) onAddTrigger(trigger);
+    if (!triggers.includes(trigger)) setTriggers([...triggers, trigger]);
+    setNewTrigger("");
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/80 backdrop-blur-md flex items-end justify-center p-6 animate-fade-in" onClick={onCancel}>
+      <div role="dialog" aria-modal="true" className="w-full max-w-sm bg-neutral-900 rounded-2xl border border-neutral-800 p-5 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div>
+          <p className="font-bold mb-3">{t("craving.howStrong")}</p>
+          <CravingScale value={intensity} onChange={setIntensity} />
+        </div>
+        <div>
+          <p className="font-bold mb-3">{t("craving.whatTriggered")}</p>
+          <div className="flex flex-wrap gap-2">
+            {[...DEFAULT_TRIGGERS, ...customTriggers].map((trigger) => (
+              <button
+                key={trigger}
+                onClick={() => toggle(trigger)}
+                className={`px-3 py-1.5 rounded-full text-sm capitalize transition ${triggers.includes(trigger) ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+              >
+                {triggerLabel(i18n, trigger)}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2 mt-3">
+            <input
+              className="flex-1 bg-neutral-800 border border-neutral-700 rounded-lg px-3 py-2 text-sm text-white focus:border-orange-500 focus:outline-none"
+              placeholder={t("craving.other")}
+              value={newTrigger}
+              onChange={(e) => setNewTrigger(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addTrigger()}
+            />
+            <button onClick={addTrigger} className="p-2 bg-neutral-800 rounded-lg"><Plus className="w-4 h-4" /></button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={onSkip} className="py-3 bg-neutral-800 rounded-xl text-sm text-gray-300">{t("common.skip")}</button>
+          <button
+            onClick={() => intensity !== null && onSubmit({ intensity, triggers })}
+            disabled={intensity === null}
+            className="flex items-center justify-center gap-2 py-3 bg-orange-600 rounded-xl font-bold disabled:opacity-40"
+          >
+            <Flame className="w-4 h-4" /> {t("craving.light")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from "react";
+import { Volume2, VolumeX } from "lucide-react";
+import { AppSettings, FeedbackEffect } from "../types";
+import { useI18n } from "../utils/i18n";
+import { playIgnition } from "../utils/audio";
+
+const EFFECTS: FeedbackEffect[] = ["ignition", "crackle", "exhale", "haptics"];
+
+export const FeedbackSettings = ({ settings, onChange }: { settings: AppSettings, onChange: (settings: AppSettings) => void }) => {
+  const { t } = useI18n();
+  const effects = settings.feedbackEffects;
+
+  const toggleEffect = (effect: FeedbackEffect) => {
+    onChange({
+      ...settings,
+      feedbackEffects: effects.includes(effect) ? effects.filter((e) => e !== effect) : [...effects, effect],
+    });
+  };
+
+  return (
+    <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+      <div className="flex items-center gap-2 mb-4 text-violet-400">
+        <Volume2 className="w-5 h-5" />
+        <span className="font-bold">{t("feedback.title")}</span>
+      </div>
+
+      <label className="text-xs text-gray-500 mb-1 block">{t("feedback.volume")}</label>
+      <div className="flex items-center gap-3">
+        {settings.soundVolume === 0 ? <VolumeX className="w-4 h-4 text-gray-500" /> : <Volume2 className="w-4 h-4 text-gray-500" />}
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={settings.soundVolume}
+          onChange={(e) => onChange({ ...settings, soundVolume: Number(e.target.value) })}
+          onPointerUp={(e) => playIgnition(Number(e.currentTarget.value))}
+          className="flex-1 accent-violet-500"
+        />
+        <span className="text-xs text-gray-400 font-mono w-10 text-right">{Math.round(settings.soundVolume * 100)}%</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 mt-4">
+        {EFFECTS.map((effect) => (
+          <button
+            key={effect}
+            onClick={() => toggleEffect(effect)}
+            className={`py-2 rounded-lg text-sm font-medium transition ${effects.includes(effect) ? "bg-violet-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+          >
+            {t(`feedback.effect.${effect}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <span className="text-sm text-gray-300">{t("feedback.quietInActiveHours")}</span>
+        <input
+          type="checkbox"
+          checked={settings.quietInActiveHours}
+          onChange={(e) => onChange({ ...settings, quietInActiveHours: e.target.checked })}
+        />
+      </div>
+      <p className="text-gray-500 text-xs mt-2">{t("feedback.quietHint")}</p>
+    </div>
+  );
+};
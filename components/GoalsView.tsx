@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import { X, PiggyBank, Plus, Trash2, ArrowUpToLine, Trophy } from "lucide-react";
+import { SavingsGoal, SmokeRecord } from "../types";
+import { activeGoals, completedGoals, estimateCompletions, focusGoal, savingPace } from "../utils/goals";
+import { parseDay, todayKey } from "../utils/quitPlan";
+import { useI18n } from "../utils/i18n";
+
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-emerald-500 focus:outline-none";
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { dateStyle: "medium" };
+
+export const GoalsView = ({ goals, history, onChange, onClose }: {
+  goals: SavingsGoal[],
+  history: SmokeRecord[],
+  onChange: (goals: SavingsGoal[]) => void,
+  onClose: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [name, setName] = useState("");
+  const [target, setTarget] = useState("");
+  const [deadline, setDeadline] = useState("");
+
+  const active = activeGoals(goals);
+  const completed = completedGoals(goals);
+  const pace = savingPace(history);
+  const estimates = estimateCompletions(goals, pace);
+  const targetValue = parseFloat(target);
+  const canAdd = !!name.trim() && targetValue > 0;
+
+  const addGoal = () => {
+    if (!canAdd) return;
+    onChange([...goals, {
+      id: `goal_${Date.now()}`,
+      name: name.trim(),
+      target: targetValue,
+      saved: 0,
+      deadline: deadline || undefined,
+      createdAt: Date.now(),
+    }]);
+    setName("");
+    setTarget("");
+    setDeadline("");
+  };
+
+  const deleteGoal = (goal: SavingsGoal) => {
+    if (goal.saved > 0 && goal.completedAt === undefined && !confirm(t("goals.deleteConfirm", { name: goal.name }))) return;
+    onChange(goals.filter((g) => g.id !== goal.id));
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><PiggyBank /> {t("goals.title")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-6 scrollbar-hide">
+        {active.length === 0 && <p className="text-gray-400 text-sm">{t("goals.empty")}</p>}
+
+        {active.map((g, i) => {
+          const eta = estimates.get(g.id) ?? null;
+          const late = eta !== null && !!g.deadline && eta > parseDay(g.deadline).getTime() + 24 * 60 * 60 * 1000;
+          return (
+            <div key={g.id} className={`p-5 bg-neutral-900 rounded-xl border ${i === 0 ? "border-emerald-500/40" : "border-neutral-800"}`}>
+              <div className="flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <div className="font-bold truncate">{g.name}</div>
+                  {i === 0 && <div className="text-[10px] text-emerald-400 uppercase tracking-[0.2em]">{t("goals.current")}</div>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {i > 0 && <button onClick={() => onChange(focusGoal(goals, g.id))} className="p-1 text-gray-400" title={t("goals.focus")} aria-label={t("goals.focus")}><ArrowUpToLine className="w-4 h-4" /></button>}
+                  <button onClick={() => deleteGoal(g)} aria-label={t("common.delete")} className="p-1 text-red-400"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </div>
+              <div className="flex justify-between text-sm font-mono mt-3">
+                <span className="text-emerald-400">{i18n.money(g.saved)}</span>
+                <span className="text-gray-500">{i18n.money(g.target)}</span>
+              </div>
+              <div className="h-2 mt-1 bg-neutral-800 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-400 transition-all" style={{ width: `${Math.min(100, (g.saved / g.target) * 100)}%` }}></div>
+              </div>
+              <div className="flex justify-between text-xs mt-2">
+                <span className={late ? "text-red-400" : "text-gray-400"}>
+                  {eta === null ? t("goals.noPace") : t("goals.eta", { date: i18n.date(eta, DATE_FORMAT) })}
+                </span>
+                {g.deadline && <span className="text-gray-500">{t("goals.deadline", { date: i18n.date(parseDay(g.deadline), DATE_FORMAT) })}</span>}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-4">
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">{t("goals.name")}</label>
+            <input className={inputClass} placeholder={t("goals.namePlaceholder")} value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("goals.target", { symbol: i18n.currencySymbol })}</label>
+              <input type="number" min="0" step="1" className={inputClass} value={target} onChange={(e) => setTarget(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("goals.deadlineOptional")}</label>
+              <input type="date" min={todayKey()} className={inputClass} value={deadline} onChange={(e) => setDeadline(e.target.value)} />
+            </div>
+          </div>
+          <button onClick={addGoal} disabled={!canAdd} className="w-full flex items-center justify-center gap-2 py-3 bg-emerald-500 text-black font-bold rounded-lg active:scale-95 transition disabled:opacity-40">
+            <Plus className="w-4 h-4" /> {t("goals.add")}
+          </button>
+          <p className="text-gray-500 text-xs">{t("goals.hint")}</p>
+        </div>
+
+        {completed.length > 0 && (
+          <div className="space-y-3">
+            <p className="text-xs text-gray-500">{t("goals.archive")}</p>
+            {completed.map((g) => (
+              <div key={g.id} className="flex justify-between items-center p-4 bg-neutral-900 rounded-lg border border-neutral-800">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Trophy className="w-4 h-4 text-yellow-400 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-white font-medium truncate">{g.name}</div>
+                    <div className="text-xs text-neutral-500">{t("goals.completedOn", { date: i18n.date(g.completedAt!, DATE_FORMAT) })}</div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-emerald-400 font-mono">{i18n.money(g.target)}</span>
+                  <button onClick={() => deleteGoal(g)} aria-label={t("common.delete")} className="p-1 text-gray-500"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
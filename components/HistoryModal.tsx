@@ -0,0 +1,291 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, History, Flame, Cigarette, Pencil, Trash2, Search, CheckSquare, Square, Undo2, PartyPopper } from "lucide-react";
+import { Brand, SmokeRecord, RecordKind, SavingsGoal } from "../types";
+import { HistoryFilter, EMPTY_FILTER, filterRecords, groupByDay, editRecord, deleteRecords } from "../utils/history";
+import { dayKey } from "../utils/stats";
+import { CalendarHeatmap } from "./CalendarHeatmap";
+import { useI18n } from "../utils/i18n";
+import { useFocusTrap } from "../utils/focusTrap";
+
+type KindFilter = RecordKind | "all";
+
+const FILTERS: KindFilter[] = ["all", "virtual", "real"];
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = { timeStyle: "short" };
+
+const UNDO_MS = 6000;
+
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-2.5 text-white text-sm focus:border-orange-500 focus:outline-none";
+
+// <input type="datetime-local"> works in local time without seconds
+const toInputValue = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const RecordEditor = ({ record, brands, onSave, onCancel }: {
+  record: SmokeRecord,
+  brands: Brand[],
+  onSave: (brandName: string, timestamp: number) => void,
+  onCancel: () => void,
+}) => {
+  const { t } = useI18n();
+  const [brandName, setBrandName] = useState(record.brandName);
+  const [time, setTime] = useState(toInputValue(record.timestamp));
+  // Records can outlive the brand they were made with
+  const names = brands.some((b) => b.name === record.brandName) ? brands.map((b) => b.name) : [record.brandName, ...brands.map((b) => b.name)];
+  const timestamp = new Date(time).getTime();
+  const valid = Number.isFinite(timestamp) && timestamp <= Date.now();
+
+  return (
+    <div className="p-4 bg-neutral-900 rounded-lg border border-orange-500/50 space-y-3">
+      <select className={`${inputClass} appearance-none`} value={brandName} onChange={(e) => setBrandName(e.target.value)}>
+        {names.map((name) => <option key={name} value={name}>{name}</option>)}
+      </select>
+      <input type="datetime-local" className={inputClass} value={time} onChange={(e) => setTime(e.target.value)} />
+      <p className="text-xs text-gray-500">{t("history.editHint")}</p>
+      <div className="flex gap-2">
+        <button onClick={onCancel} className="flex-1 py-2 rounded-lg text-sm font-medium bg-neutral-800 text-gray-400">{t("common.cancel")}</button>
+        <button
+          disabled={!valid}
+          onClick={() => onSave(brandName, timestamp)}
+          className="flex-1 py-2 rounded-lg text-sm font-medium bg-orange-600 text-white disabled:opacity-40"
+        >
+          {t("common.save")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const HistoryModal = ({ history, brands, priceOf, onChange, onClose }: {
+  history: SmokeRecord[],
+  brands: Brand[],
+  priceOf: (brand: Brand) => number,
+  onChange: (records: SmokeRecord[]) => SavingsGoal[], // returns the goals the change completed
+  onClose: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [day, setDay] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [undo, setUndo] = useState<{ message: string, previous: SmokeRecord[] } | null>(null);
+  const [reached, setReached] = useState<SavingsGoal[]>([]);
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useFocusTrap(dialogRef);
+
+  const filtered = filterRecords(history, filter);
+  const records = day ? filtered.filter((r) => dayKey(new Date(r.timestamp)) === day) : filtered;
+  const groups = groupByDay(records);
+
+  useEffect(() => {
+    if (!undo) return;
+    const id = window.setTimeout(() => setUndo(null), UNDO_MS);
+    return () => clearTimeout(id);
+  }, [undo]);
+
+  useEffect(() => {
+    if (reached.length === 0) return;
+    const id = window.setTimeout(() => setReached([]), UNDO_MS);
+    return () => clearTimeout(id);
+  }, [reached]);
+
+  // Restoring a record or raising its price can finish a goal
+  const apply = (next: SmokeRecord[]) => {
+    const completed = onChange(next);
+    if (completed.length > 0) setReached(completed);
+  };
+
+  // Every change keeps the list as it was, for the undo toast
+  const commit = (next: SmokeRecord[], message: string) => {
+    setUndo({ message, previous: history });
+    apply(next);
+  };
+
+  const updateFilter = (patch: Partial<HistoryFilter>) => setFilter({ ...filter, ...patch });
+
+  const saveEdit = (id: number, brandName: string, timestamp: number) => {
+    commit(editRecord(history, id, { brandName, timestamp }, brands, priceOf), t("history.edited"));
+    setEditingId(null);
+  };
+
+  const remove = (ids: Set<number>) => {
+    commit(deleteRecords(history, ids), t("history.deleted", { n: ids.size }));
+    setSelected(new Set());
+    setSelecting(false);
+  };
+
+  const toggleSelected = (id: number) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const toggleSelecting = () => {
+    setSelecting(!selecting);
+    setSelected(new Set());
+    setEditingId(null);
+  };
+
+  const renderRecord = (r: SmokeRecord) => {
+    if (editingId === r.id) {
+      return (
+        <div key={r.id}>
+          <RecordEditor
+            record={r}
+            brands={brands}
+            onSave={(brandName, timestamp) => saveEdit(r.id, brandName, timestamp)}
+            onCancel={() => setEditingId(null)}
+          />
+        </div>
+      );
+    }
+    const real = r.kind === "real";
+    return (
+      <div
+        key={r.id}
+        onClick={selecting ? () => toggleSelected(r.id) : undefined}
+        onKeyDown={selecting ? (e) => { if (e.key === " " || e.key === "Enter") { e.preventDefault(); toggleSelected(r.id); } } : undefined}
+        role={selecting ? "checkbox" : undefined}
+        aria-checked={selecting ? selected.has(r.id) : undefined}
+        tabIndex={selecting ? 0 : undefined}
+        className={`flex justify-between items-center p-4 rounded-lg border ${real ? "bg-red-950/30 border-red-900/50" : "bg-neutral-900 border-neutral-800"} ${selecting ? "cursor-pointer" : ""}`}
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          {selecting
+            ? (selected.has(r.id) ? <CheckSquare className="w-4 h-4 text-orange-400 shrink-0" /> : <Square className="w-4 h-4 text-gray-500 shrink-0" />)
+            : real ? <Cigarette className="w-4 h-4 text-red-400 shrink-0" /> : <Flame className="w-4 h-4 text-orange-400 shrink-0" />}
+          <div className="min-w-0">
+            <div className="text-white font-medium truncate">
+              {r.brandName}
+              {real && <span className="text-xs text-red-400"> {t("history.realTag")}</span>}
+              {r.burned !== undefined && <span className="text-xs text-gray-500"> {t("history.partialTag", { percent: Math.round(r.burned * 100) })}</span>}
+            </div>
+            <div className="text-xs text-neutral-500">{i18n.date(r.timestamp, TIME_FORMAT)}</div>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <div className={`font-mono mr-2 ${real ? "text-red-400" : "text-emerald-400"}`}>
+            {real ? i18n.money(-(r.spentAmount ?? 0), true) : i18n.money(r.savedAmount, true)}
+          </div>
+          {!selecting && (
+            <>
+              <button onClick={() => setEditingId(r.id)} aria-label={t("history.edit", { brand: r.brandName })} className="p-2 text-gray-500 hover:text-white transition"><Pencil className="w-4 h-4" /></button>
+              <button onClick={() => remove(new Set([r.id]))} aria-label={t("history.delete", { brand: r.brandName })} className="p-2 text-gray-500 hover:text-red-400 transition"><Trash2 className="w-4 h-4" /></button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div ref={dialogRef} role="dialog" aria-modal="true" aria-label={t("history.title")} className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><History /> {t("history.title")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-4 scrollbar-hide">
+        <div className="flex gap-2">
+          {FILTERS.map((f) => (
+            <button
+              key={f}
+              onClick={() => updateFilter({ kind: f })}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${filter.kind === f ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+            >
+              {t(`history.${f}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              className={`${inputClass} pl-9`}
+              placeholder={t("history.search")}
+              value={filter.query}
+              onChange={(e) => updateFilter({ query: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-xs text-gray-500">
+              {t("history.from")}
+              <input type="date" className={`${inputClass} mt-1`} value={filter.from} max={filter.to || undefined} onChange={(e) => updateFilter({ from: e.target.value })} />
+            </label>
+            <label className="text-xs text-gray-500">
+              {t("history.to")}
+              <input type="date" className={`${inputClass} mt-1`} value={filter.to} min={filter.from || undefined} onChange={(e) => updateFilter({ to: e.target.value })} />
+            </label>
+          </div>
+        </div>
+
+        <CalendarHeatmap records={filtered} selected={day} onSelect={setDay} />
+
+        <div className="flex justify-between items-center">
+          <p className="text-xs text-gray-500">
+            {day
+              ? <button onClick={() => setDay(null)} className="text-orange-400">{t("history.showAll")}</button>
+              : t("history.count", { n: records.length })}
+          </p>
+          <div className="flex gap-2">
+            {selecting && (
+              <button
+                disabled={selected.size === 0}
+                onClick={() => remove(selected)}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-red-600 text-white disabled:opacity-40"
+              >
+                <Trash2 className="w-3.5 h-3.5" /> {t("history.deleteSelected", { n: selected.size })}
+              </button>
+            )}
+            <button
+              onClick={toggleSelecting}
+              disabled={records.length === 0}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium transition ${selecting ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+            >
+              {selecting ? t("common.cancel") : t("history.select")}
+            </button>
+          </div>
+        </div>
+
+        {records.length === 0 && <p className="text-neutral-500 text-center mt-10">{t("history.empty")}</p>}
+        {groups.map((group) => (
+          <div key={group.key} className="space-y-2">
+            <div className="flex justify-between text-xs text-gray-500 px-1">
+              <span>{i18n.date(group.records[0].timestamp, { weekday: "short", month: "short", day: "numeric", year: "numeric" })}</span>
+              <span>{t("history.count", { n: group.records.length })}</span>
+            </div>
+            {group.records.map(renderRecord)}
+          </div>
+        ))}
+      </div>
+
+      {reached.length > 0 && (
+        <div role="status" className={`absolute left-6 right-6 ${undo ? "bottom-24" : "bottom-6"} p-4 bg-neutral-800 rounded-xl border border-yellow-400/30 shadow-2xl animate-fade-in`}>
+          {reached.map((g) => (
+            <p key={g.id} className="text-yellow-300 font-bold text-sm flex items-center justify-center gap-1">
+              <PartyPopper className="w-4 h-4" /> {t("goals.reached", { name: g.name })}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {undo && (
+        <div role="status" className="absolute bottom-6 left-6 right-6 flex justify-between items-center gap-3 p-4 bg-neutral-800 rounded-xl border border-white/10 shadow-2xl animate-fade-in">
+          <span className="text-sm text-gray-200">{undo.message}</span>
+          <button
+            onClick={() => { apply(undo.previous); setUndo(null); }}
+            className="flex items-center gap-1 text-sm font-bold text-orange-400"
+          >
+            <Undo2 className="w-4 h-4" /> {t("history.undo")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from "react";
+import { MessageCircle } from "lucide-react";
+import { AppSettings, MessageProviderId, MessageTone } from "../types";
+import { useI18n } from "../utils/i18n";
+
+const selectClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-amber-500 focus:outline-none appearance-none";
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white text-sm focus:border-amber-500 focus:outline-none";
+
+const PROVIDERS: MessageProviderId[] = ["offline", "gemini", "http"];
+const TONES: MessageTone[] = ["witty", "gentle", "coach"];
+
+export const MessageSettings = ({ settings, onChange }: { settings: AppSettings, onChange: (settings: AppSettings) => void }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+      <div className="flex items-center gap-2 mb-4 text-amber-400">
+        <MessageCircle className="w-5 h-5" />
+        <span className="font-bold">{t("messages.title")}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">{t("messages.source")}</label>
+          <select
+            className={selectClass}
+            value={settings.messageProvider}
+            onChange={(e) => onChange({...settings, messageProvider: e.target.value as MessageProviderId})}
+          >
+            {PROVIDERS.map((p) => (
+              <option key={p} value={p}>{t(`messages.provider.${p}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 mb-1 block">{t("messages.tone")}</label>
+          <select
+            className={selectClass}
+            value={settings.messageTone}
+            onChange={(e) => onChange({...settings, messageTone: e.target.value as MessageTone})}
+          >
+            {TONES.map((tone) => (
+              <option key={tone} value={tone}>{t(`messages.tone.${tone}`)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {settings.messageProvider === "gemini" && (
+        <div className="mt-4">
+          <label className="text-xs text-gray-500 mb-1 block">{t("messages.apiKey")}</label>
+          <input
+            type="password"
+            className={inputClass}
+            placeholder={t("messages.apiKeyHint")}
+            value={settings.geminiApiKey}
+            onChange={(e) => onChange({...settings, geminiApiKey: e.target.value.trim()})}
+          />
+        </div>
+      )}
+      {settings.messageProvider === "http" && (
+        <div className="mt-4">
+          <label className="text-xs text-gray-500 mb-1 block">{t("messages.endpoint")}</label>
+          <input
+            type="url"
+            className={inputClass}
+            placeholder="http://localhost:8787/message"
+            value={settings.messageEndpoint}
+            onChange={(e) => onChange({...settings, messageEndpoint: e.target.value.trim()})}
+          />
+        </div>
+      )}
+      <p className="text-gray-500 text-xs mt-3">
+        {t("messages.fallbackHint")}
+      </p>
+    </div>
+  );
+};
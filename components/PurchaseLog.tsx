@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { X, Receipt, Plus, Trash2 } from "lucide-react";
+import { Brand, PackPurchase, PriceSource } from "../types";
+import { brandPurchases, effectivePrice, packSizeOf, stickPrice } from "../utils/pricing";
+import { parseDay, todayKey } from "../utils/quitPlan";
+import { BarChart } from "./StatsDashboard";
+import { useI18n } from "../utils/i18n";
+
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-yellow-500 focus:outline-none";
+
+const SOURCES: PriceSource[] = ["latest", "average"];
+
+export const PurchaseLog = ({ brands, purchases, priceSource, initialBrandId, onChange, onPriceSourceChange, onClose }: {
+  brands: Brand[],
+  purchases: PackPurchase[],
+  priceSource: PriceSource,
+  initialBrandId: string,
+  onChange: (purchases: PackPurchase[]) => void,
+  onPriceSourceChange: (source: PriceSource) => void,
+  onClose: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [brandId, setBrandId] = useState(initialBrandId);
+  const brand = brands.find((b) => b.id === brandId) ?? brands[0];
+  const [packSize, setPackSize] = useState(String(packSizeOf(brand, purchases)));
+  const [price, setPrice] = useState("");
+  const [date, setDate] = useState(todayKey());
+
+  const own = brandPurchases(purchases, brand.id);
+  const sizeValue = parseInt(packSize);
+  const priceValue = parseFloat(price);
+  const canAdd = sizeValue > 0 && priceValue > 0 && !!date && date <= todayKey();
+
+  const pickBrand = (id: string) => {
+    setBrandId(id);
+    setPackSize(String(packSizeOf(brands.find((b) => b.id === id), purchases)));
+  };
+
+  const addPurchase = () => {
+    if (!canAdd) return;
+    onChange([...purchases, { id: Date.now(), brandId: brand.id, packSize: sizeValue, price: priceValue, date }]);
+    setPrice("");
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><Receipt /> {t("purchases.title")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-6 scrollbar-hide">
+        <select className={`${inputClass} appearance-none`} value={brand.id} onChange={(e) => pickBrand(e.target.value)}>
+          {brands.map((b) => <option key={b.id} value={b.id}>{b.name}</option>)}
+        </select>
+
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-4">
+          <div className="flex justify-between items-baseline">
+            <span className="text-xs text-gray-500">{t("purchases.current")}</span>
+            <span className="text-2xl font-bold font-mono text-yellow-400">{i18n.money(effectivePrice(brand, purchases, priceSource))}</span>
+          </div>
+          <div className="flex gap-2">
+            {SOURCES.map((s) => (
+              <button
+                key={s}
+                onClick={() => onPriceSourceChange(s)}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${priceSource === s ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+              >
+                {t(`purchases.source.${s}`)}
+              </button>
+            ))}
+          </div>
+          <p className="text-gray-500 text-xs">{own.length > 0 ? t("purchases.sourceHint") : t("purchases.noPurchases")}</p>
+        </div>
+
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+          <div className="text-xs text-gray-500 mb-3">{t("purchases.history")}</div>
+          {own.length >= 2
+            ? (
+              <BarChart
+                values={own.map(stickPrice)}
+                labels={own.map((p) => i18n.date(parseDay(p.date), { month: "numeric", day: "numeric" }))}
+                color="#facc15"
+                format={(v) => i18n.money(v)}
+              />
+            )
+            : <p className="text-gray-500 text-sm">{t("purchases.chartEmpty")}</p>}
+        </div>
+
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("purchases.packPrice", { symbol: i18n.currencySymbol })}</label>
+              <input type="number" min="0" step="0.01" className={inputClass} value={price} onChange={(e) => setPrice(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("purchases.packSize")}</label>
+              <input type="number" min="1" step="1" className={inputClass} value={packSize} onChange={(e) => setPackSize(e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs text-gray-500 mb-1 block">{t("purchases.date")}</label>
+            <input type="date" max={todayKey()} className={inputClass} value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <button onClick={addPurchase} disabled={!canAdd} className="w-full flex items-center justify-center gap-2 py-3 bg-yellow-400 text-black font-bold rounded-lg active:scale-95 transition disabled:opacity-40">
+            <Plus className="w-4 h-4" /> {t("purchases.add")}
+          </button>
+        </div>
+
+        {own.length > 0 && (
+          <div className="space-y-3">
+            {[...own].reverse().map((p) => (
+              <div key={p.id} className="flex justify-between items-center p-4 bg-neutral-900 rounded-lg border border-neutral-800">
+                <div className="min-w-0">
+                  <div className="text-white font-medium">{t("purchases.pack", { price: i18n.money(p.price), n: p.packSize })}</div>
+                  <div className="text-xs text-neutral-500">{i18n.date(parseDay(p.date), { dateStyle: "medium" })}</div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-yellow-400 font-mono text-sm">{t("brands.perStickPrice", { price: i18n.money(stickPrice(p)) })}</span>
+                  <button onClick={() => onChange(purchases.filter((x) => x.id !== p.id))} aria-label={t("common.delete")} className="p-1 text-gray-500"><Trash2 className="w-4 h-4" /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import { X, Target, Cigarette, Repeat } from "lucide-react";
+import { QuitPlan, SmokeRecord } from "../types";
+import { planSchedule, planProgress, todayKey, parseDay } from "../utils/quitPlan";
+import { I18n, useI18n } from "../utils/i18n";
+
+const formatDay = (i18n: I18n, day: string) => i18n.date(parseDay(day), { dateStyle: "medium" });
+
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-emerald-500 focus:outline-none";
+
+// Allowance as an outline, real cigarettes as the filled bar; red when over.
+const ScheduleChart = ({ plan, history }: { plan: QuitPlan, history: SmokeRecord[] }) => {
+  const days = planSchedule(plan, history);
+  const today = todayKey();
+  const max = Math.max(plan.baselinePerDay, ...days.map((d) => d.real), 1);
+  const width = 300;
+  const height = 100;
+  const slot = width / days.length;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+      {days.map((d, i) => {
+        const x = i * slot + slot * 0.15;
+        const w = Math.max(1, slot * 0.7);
+        const allowH = (d.allowance / max) * height;
+        const realH = (d.real / max) * height;
+        const future = d.day > today;
+        return (
+          <g key={d.day}>
+            <rect x={x} y={height - allowH} width={w} height={allowH} fill="none" stroke={d.day === today ? "#fbbf24" : "#4b5563"} strokeWidth={0.75} />
+            {!future && <rect x={x} y={height - realH} width={w} height={realH} fill={d.real > d.allowance ? "#f87171" : "#34d399"} />}
+            <title>{`${d.day}: ${d.real} / ${d.allowance}`}</title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const QuitPlanView = ({ plan, history, onChange, onLogReal, onClose }: {
+  plan: QuitPlan | null,
+  history: SmokeRecord[],
+  onChange: (plan: QuitPlan | null) => void,
+  onLogReal: () => void,
+  onClose: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [baseline, setBaseline] = useState("10");
+  const [quitDate, setQuitDate] = useState(() => {
+    const d = new Date();
+    return todayKey(new Date(d.getFullYear(), d.getMonth(), d.getDate() + 30));
+  });
+
+  const today = todayKey();
+  const baselineValue = parseInt(baseline);
+  const canStart = baselineValue > 0 && quitDate > today;
+
+  const startPlan = () => {
+    if (!canStart) return;
+    onChange({ baselinePerDay: baselineValue, startDate: today, quitDate });
+  };
+
+  const endPlan = () => {
+    if (confirm(t("plan.endConfirm"))) onChange(null);
+  };
+
+  const progress = plan ? planProgress(plan, history) : null;
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><Target /> {t("plan.title")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      {!plan || !progress ? (
+        <div className="space-y-6">
+          <p className="text-gray-400 text-sm">
+            {t("plan.intro")}
+          </p>
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-4">
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("plan.baseline")}</label>
+              <input type="number" min="1" className={inputClass} value={baseline} onChange={(e) => setBaseline(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-xs text-gray-500 mb-1 block">{t("plan.quitDate")}</label>
+              <input type="date" min={today} className={inputClass} value={quitDate} onChange={(e) => setQuitDate(e.target.value)} />
+            </div>
+          </div>
+          <button onClick={startPlan} disabled={!canStart} className="w-full py-4 bg-emerald-500 text-black font-bold rounded-xl active:scale-95 transition disabled:opacity-40">
+            {t("plan.start")}
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto space-y-6 scrollbar-hide">
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 text-center">
+            <p className="text-[10px] text-gray-500 uppercase tracking-[0.2em]">
+              {progress.dayNumber > progress.totalDays ? t("plan.smokeFree") : t("plan.dayOf", { n: progress.dayNumber, total: progress.totalDays })}
+            </p>
+            <p className={`text-5xl font-bold font-mono mt-2 ${progress.remaining < 0 ? "text-red-400" : "text-emerald-400"}`}>
+              {Math.abs(progress.remaining)}
+            </p>
+            <p className="text-sm text-gray-400 mt-1">
+              {progress.remaining < 0 ? t("plan.over") : t("plan.left")} · {progress.realToday} / {progress.allowance}
+            </p>
+            <div className="flex justify-center gap-6 mt-4 text-sm">
+              <span className="flex items-center gap-1 text-sky-300"><Repeat className="w-4 h-4" /> {t("plan.swapped", { n: progress.virtualToday })}</span>
+              <span className="text-gray-400">{t("plan.onTarget", { n: progress.daysOnTarget, total: progress.daysElapsed })}</span>
+            </div>
+          </div>
+
+          <button onClick={onLogReal} className="w-full flex items-center justify-center gap-2 py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition">
+            <Cigarette className="w-4 h-4" /> {t("plan.logReal")}
+          </button>
+
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+            <div className="flex justify-between text-xs text-gray-500 mb-3">
+              <span>{formatDay(i18n, plan.startDate)}</span>
+              <span>{t("plan.quitOn", { date: formatDay(i18n, plan.quitDate) })}</span>
+            </div>
+            <ScheduleChart plan={plan} history={history} />
+          </div>
+
+          <button onClick={endPlan} className="w-full py-3 text-sm text-red-400">{t("plan.end")}</button>
+        </div>
+      )}
+    </div>
+  );
+};
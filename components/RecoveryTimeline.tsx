@@ -0,0 +1,95 @@
+import React from "react";
+import { X, HeartPulse, Check } from "lucide-react";
+import { RECOVERY_MILESTONES, recoveryProgress } from "../utils/recovery";
+import { useI18n } from "../utils/i18n";
+
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-rose-500 focus:outline-none";
+
+// <input type="datetime-local"> works in local time without seconds
+const toInputValue = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const RecoveryTimeline = ({ start, lastCigaretteAt, now, onSetLastCigarette, onClose }: {
+  start: number | null,
+  lastCigaretteAt: number, // the date set by hand, 0 when not set
+  now: number,
+  onSetLastCigarette: (timestamp: number) => void,
+  onClose: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const progress = start !== null ? recoveryProgress(start, now) : null;
+
+  const setFromInput = (value: string) => {
+    const timestamp = value ? new Date(value).getTime() : 0;
+    if (Number.isFinite(timestamp) && timestamp <= now) onSetLastCigarette(timestamp);
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><HeartPulse /> {t("recovery.title")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-6 scrollbar-hide">
+        {progress ? (
+          <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 text-center">
+            <p className="text-[10px] text-gray-500 uppercase tracking-[0.2em]">{t("recovery.smokeFreeFor")}</p>
+            <p className="text-4xl font-bold font-mono text-rose-300 mt-2">{i18n.duration(progress.elapsedMs)}</p>
+            {progress.next && (
+              <p className="text-sm text-gray-400 mt-2">
+                {t("recovery.next", { milestone: t(`recovery.body.${progress.next.id}`), countdown: i18n.duration(progress.nextInMs) })}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-gray-400 text-sm">{t("recovery.empty")}</p>
+        )}
+
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+          <label className="text-xs text-gray-500 mb-1 block">{t("recovery.lastCigarette")}</label>
+          <input
+            type="datetime-local"
+            className={inputClass}
+            max={toInputValue(now)}
+            value={lastCigaretteAt > 0 ? toInputValue(lastCigaretteAt) : ""}
+            onChange={(e) => setFromInput(e.target.value)}
+          />
+          <p className="text-gray-500 text-xs mt-2">{t("recovery.lastCigaretteHint")}</p>
+        </div>
+
+        <div className="space-y-3">
+          {RECOVERY_MILESTONES.map((m) => {
+            const reached = !!progress && progress.elapsedMs >= m.afterMs;
+            const upcoming = progress?.next?.id === m.id;
+            return (
+              <div key={m.id} className={`p-4 rounded-lg border ${reached ? "bg-rose-950/30 border-rose-900/50" : "bg-neutral-900 border-neutral-800"}`}>
+                <div className="flex items-center gap-3">
+                  <div className={`w-6 h-6 shrink-0 rounded-full flex items-center justify-center ${reached ? "bg-rose-500 text-black" : "border border-neutral-700"}`}>
+                    {reached && <Check className="w-4 h-4" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between text-xs">
+                      <span className={reached ? "text-rose-300" : "text-gray-500"}>{t(`recovery.at.${m.id}`)}</span>
+                      {upcoming && progress && <span className="font-mono text-rose-300">{i18n.duration(progress.nextInMs)}</span>}
+                    </div>
+                    <div className={`text-sm ${reached ? "text-white" : "text-gray-400"}`}>{t(`recovery.body.${m.id}`)}</div>
+                  </div>
+                </div>
+                {upcoming && progress && (
+                  <div className="h-1.5 mt-3 bg-neutral-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-rose-400" style={{ width: `${progress.nextProgress * 100}%` }}></div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
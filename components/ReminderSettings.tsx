@@ -0,0 +1,147 @@
+import React from "react";
+import { Clock, History, Plus, Trash2, BellOff } from "lucide-react";
+import { AppSettings, ReminderWindow } from "../types";
+import { ALL_WEEKDAYS } from "../constants";
+import { I18n, useI18n } from "../utils/i18n";
+
+// Monday first, as on a work calendar
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+// 2024-01-07 was a Sunday
+const weekdayLabel = (i18n: I18n, day: number) => i18n.date(new Date(2024, 0, 7 + day), { weekday: "short" });
+
+const timeInputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-orange-500 focus:outline-none";
+const selectClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-blue-500 focus:outline-none appearance-none";
+
+const formatNext = (i18n: I18n, next: number | null) => {
+  if (next === null) return "—";
+  const d = new Date(next);
+  const time = i18n.date(d, { hour: "2-digit", minute: "2-digit" });
+  return d.toDateString() === new Date().toDateString() ? time : `${i18n.date(d, { weekday: "short" })} ${time}`;
+};
+
+const INTERVALS = [30, 45, 60, 90, 120];
+const DAILY_CAPS = [3, 5, 8, 12];
+
+export const ReminderSettings = ({ settings, onChange, nextReminder, snoozeUntil, onSnooze }: {
+  settings: AppSettings,
+  onChange: (settings: AppSettings) => void,
+  nextReminder: number | null,
+  snoozeUntil: number,
+  onSnooze: (minutes: number) => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const windows = settings.reminderWindows;
+
+  const updateWindow = (index: number, patch: Partial<ReminderWindow>) => {
+    onChange({ ...settings, reminderWindows: windows.map((w, i) => (i === index ? { ...w, ...patch } : w)) });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    updateWindow(index, { days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort() });
+  };
+
+  const addWindow = () => {
+    onChange({ ...settings, reminderWindows: [...windows, { start: "09:00", end: "18:00", days: ALL_WEEKDAYS }] });
+  };
+
+  const removeWindow = (index: number) => {
+    onChange({ ...settings, reminderWindows: windows.filter((_, i) => i !== index) });
+  };
+
+  const snoozed = snoozeUntil > Date.now();
+
+  return (
+    <>
+      {/* Active Hours */}
+      <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+        <div className="flex items-center gap-2 mb-4 text-orange-400">
+          <Clock className="w-5 h-5" />
+          <span className="font-bold">{t("reminders.activeHours")}</span>
+        </div>
+        <div className="space-y-4">
+          {windows.map((w, i) => (
+            <div key={i} className="space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">{t("reminders.start")}</label>
+                  <input type="time" className={timeInputClass} value={w.start} onChange={(e) => updateWindow(i, { start: e.target.value })} />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500 mb-1 block">{t("reminders.end")}{w.end <= w.start && ` ${t("reminders.nextDay")}`}</label>
+                  <input type="time" className={timeInputClass} value={w.end} onChange={(e) => updateWindow(i, { end: e.target.value })} />
+                </div>
+                <button onClick={() => removeWindow(i)} aria-label={t("common.delete")} className="p-3 text-red-400"><Trash2 className="w-4 h-4" /></button>
+              </div>
+              <div className="flex gap-1">
+                {WEEKDAY_ORDER.map((day) => (
+                  <button
+                    key={day}
+                    onClick={() => toggleDay(i, day)}
+                    className={`flex-1 py-1 rounded text-[11px] transition ${w.days.includes(day) ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-500"}`}
+                  >
+                    {weekdayLabel(i18n, day)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          {windows.length === 0 && <p className="text-gray-500 text-sm">{t("reminders.noWindows")}</p>}
+          <button onClick={addWindow} className="w-full flex items-center justify-center gap-2 py-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm transition">
+            <Plus className="w-4 h-4" /> {t("reminders.addWindow")}
+          </button>
+        </div>
+      </div>
+
+      {/* Interval */}
+      <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+        <div className="flex items-center gap-2 mb-4 text-blue-400">
+          <History className="w-5 h-5" />
+          <span className="font-bold">{t("reminders.interval")}</span>
+        </div>
+        <select 
+          className={selectClass}
+          value={settings.intervalMinutes}
+          onChange={(e) => onChange({...settings, intervalMinutes: parseInt(e.target.value)})}
+        >
+          {INTERVALS.map((m) => (
+            <option key={m} value={m}>{t("reminders.every", { interval: i18n.duration(m * 60000) })}</option>
+          ))}
+        </select>
+        <label className="text-xs text-gray-500 mt-4 mb-1 block">{t("reminders.dailyLimit")}</label>
+        <select 
+          className={selectClass}
+          value={settings.dailyReminderCap}
+          onChange={(e) => onChange({...settings, dailyReminderCap: parseInt(e.target.value)})}
+        >
+          <option value={0}>{t("reminders.noLimit")}</option>
+          {DAILY_CAPS.map((n) => (
+            <option key={n} value={n}>{t("reminders.perDay", { n })}</option>
+          ))}
+        </select>
+
+        {settings.notificationsEnabled && (
+          <div className="mt-4 pt-4 border-t border-white/10">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-500">{t("reminders.nextAt")}</span>
+              <span className="font-mono text-blue-300">{formatNext(i18n, nextReminder)}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              {[10, 30].map((m) => (
+                <button key={m} onClick={() => onSnooze(m)} className="flex items-center justify-center gap-2 py-2 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm transition">
+                  <BellOff className="w-4 h-4" /> {t("reminder.snooze", { duration: i18n.duration(m * 60000) })}
+                </button>
+              ))}
+            </div>
+            {snoozed && (
+              <button onClick={() => onSnooze(0)} className="w-full mt-2 text-xs text-gray-500 underline">
+                {t("reminders.snoozedUntil", { time: formatNext(i18n, snoozeUntil) })}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
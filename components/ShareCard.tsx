@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, Share2, Download } from "lucide-react";
+import { ShareCardData, ShareSize, ShareTemplate, SHARE_TEMPLATES, SHARE_SIZES, drawShareCard, canvasToPng } from "../utils/shareCard";
+import { downloadFile } from "../utils/backup";
+import { useI18n } from "../utils/i18n";
+
+export const ShareCard = ({ data, onClose }: { data: ShareCardData, onClose: () => void }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [template, setTemplate] = useState<ShareTemplate>("ember");
+  const [size, setSize] = useState<ShareSize>("square");
+  const [sharing, setSharing] = useState(false);
+
+  useEffect(() => {
+    drawShareCard(canvasRef.current!, data, template, size, i18n);
+  }, [data, template, size, i18n]);
+
+  const fileName = `smoke-break-${new Date(data.timestamp).toISOString().slice(0, 10)}.png`;
+
+  const download = async () => {
+    downloadFile(fileName, await canvasToPng(canvasRef.current!), "image/png");
+  };
+
+  // Not every browser with navigator.share can share files
+  const canShare = typeof navigator.canShare === "function" &&
+    navigator.canShare({ files: [new File([], fileName, { type: "image/png" })] });
+
+  const share = async () => {
+    setSharing(true);
+    try {
+      const file = new File([await canvasToPng(canvasRef.current!)], fileName, { type: "image/png" });
+      await navigator.share({ files: [file], text: t("share.text", { amount: i18n.money(data.totalSaved) }) });
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; anything else gets the download instead
+      if ((error as Error).name !== "AbortError") await download();
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const { width, height } = SHARE_SIZES[size];
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><Share2 /> {t("share.title")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          className="max-w-full max-h-full rounded-xl border border-neutral-800 shadow-2xl"
+          style={{ aspectRatio: `${width} / ${height}` }}
+        />
+      </div>
+
+      <div className="mt-6 space-y-3">
+        <div className="flex gap-2">
+          {SHARE_TEMPLATES.map((id) => (
+            <button
+              key={id}
+              onClick={() => setTemplate(id)}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${template === id ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+            >
+              {t(`share.template.${id}`)}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(SHARE_SIZES) as ShareSize[]).map((id) => (
+            <button
+              key={id}
+              onClick={() => setSize(id)}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${size === id ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+            >
+              {t(`share.size.${id}`)}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 pt-2">
+          <button
+            onClick={download}
+            className="flex-1 flex items-center justify-center gap-2 bg-neutral-800 text-white font-bold py-4 rounded-xl active:scale-95 transition-transform"
+          >
+            <Download className="w-5 h-5" /> {t("share.download")}
+          </button>
+          {canShare && (
+            <button
+              onClick={share}
+              disabled={sharing}
+              className="flex-1 flex items-center justify-center gap-2 bg-white text-black font-bold py-4 rounded-xl active:scale-95 transition-transform disabled:opacity-50"
+            >
+              <Share2 className="w-5 h-5" /> {t("share.share")}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
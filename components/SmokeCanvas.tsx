@@ -0,0 +1,132 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Brand } from "../types";
+import { Gust, createSmokeState, drawSmoke, emissionRate, smokeSprite, smokeStyle, stepSmoke } from "../utils/smoke";
+
+const WIDTH = 360;
+const HEIGHT = 640;
+const MAX_PARTICLES = 260;
+const MAX_DPR = 1.5;
+// Simulation plus drawing time allowed per frame; over it, the particle count backs off
+const FRAME_BUDGET_MS = 6;
+const MIN_QUALITY = 0.2;
+
+const REDUCED_MOTION = "(prefers-reduced-motion: reduce)";
+
+// Smoke rising from the ember. Drawn on a canvas larger than the stick so the plume can
+// drift past it; `emitBottom` is the ember's height above the bottom of the canvas.
+export const SmokeCanvas = ({ brand, emitting, emitBottom, puffing, exhaling }: {
+  brand: Brand,
+  emitting: boolean,
+  emitBottom: number,
+  puffing: boolean,
+  exhaling: boolean,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stateRef = useRef(createSmokeState());
+  const gustRef = useRef<Gust | null>(null);
+  // The animation loop reads the latest props from here instead of restarting on every burn tick
+  const inputRef = useRef({ emitting, emitBottom, puffing, exhaling });
+  inputRef.current = { emitting, emitBottom, puffing, exhaling };
+
+  const style = useMemo(() => smokeStyle(brand), [brand]);
+  const sprite = useMemo(() => smokeSprite(style), [style]);
+  const [reducedMotion, setReducedMotion] = useState(() => window.matchMedia(REDUCED_MOTION).matches);
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION);
+    const onChange = () => setReducedMotion(query.matches);
+    query.addEventListener("change", onChange);
+    return () => query.removeEventListener("change", onChange);
+  }, []);
+
+  // Size the backing store once for the device's pixel density
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    const dpr = Math.min(window.devicePixelRatio || 1, MAX_DPR);
+    canvas.width = WIDTH * dpr;
+    canvas.height = HEIGHT * dpr;
+    canvas.getContext("2d")!.setTransform(dpr, 0, 0, dpr, 0, 0);
+  }, []);
+
+  // Pointer movement near the plume blows it around
+  useEffect(() => {
+    if (reducedMotion) return;
+    let last: { x: number, y: number, t: number } | null = null;
+    const onMove = (e: PointerEvent) => {
+      const rect = canvasRef.current!.getBoundingClientRect();
+      const x = e.clientX - rect.left;
+      const y = e.clientY - rect.top;
+      const t = performance.now();
+      if (last && t > last.t) {
+        const dt = (t - last.t) / 1000;
+        gustRef.current = { x, y, vx: (x - last.x) / dt, vy: (y - last.y) / dt, age: 0 };
+      }
+      last = { x, y, t };
+    };
+    window.addEventListener("pointermove", onMove);
+    return () => window.removeEventListener("pointermove", onMove);
+  }, [reducedMotion]);
+
+  // Reduced motion: a still, faint wisp above the ember instead of the animation
+  useEffect(() => {
+    if (!reducedMotion) return;
+    const ctx = canvasRef.current!.getContext("2d")!;
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    if (!emitting) return;
+    const emitY = HEIGHT - emitBottom;
+    for (let i = 0; i < 6; i++) {
+      const size = style.size + i * 6;
+      ctx.globalAlpha = 0.25 * (1 - i / 6);
+      ctx.drawImage(sprite, WIDTH / 2 - size, emitY - i * 22 - size, size * 2, size * 2);
+    }
+    ctx.globalAlpha = 1;
+  }, [reducedMotion, emitting, emitBottom, style, sprite]);
+
+  // Animation loop: runs while emitting and until the last particle has faded
+  useEffect(() => {
+    if (reducedMotion) return;
+    if (!emitting && stateRef.current.particles.length === 0) return;
+
+    const ctx = canvasRef.current!.getContext("2d")!;
+    let frame = 0;
+    let previous = performance.now();
+    let quality = 1;
+    let cost = 0; // smoothed ms per frame
+
+    const tick = (now: number) => {
+      // Clamp so a backgrounded tab doesn't come back with one giant step
+      const dt = Math.min((now - previous) / 1000, 0.05);
+      previous = now;
+      const input = inputRef.current;
+      const gust = gustRef.current;
+      if (gust) gust.age += dt;
+
+      const started = performance.now();
+      stepSmoke(stateRef.current, dt, {
+        emitX: WIDTH / 2,
+        emitY: HEIGHT - input.emitBottom,
+        rate: input.emitting ? emissionRate(input) * quality : 0,
+        maxParticles: Math.round(MAX_PARTICLES * quality),
+        gust,
+      }, style);
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+      drawSmoke(ctx, stateRef.current.particles, sprite);
+
+      cost = cost * 0.9 + (performance.now() - started) * 0.1;
+      if (cost > FRAME_BUDGET_MS) quality = Math.max(MIN_QUALITY, quality * 0.95);
+      else if (cost < FRAME_BUDGET_MS / 2) quality = Math.min(1, quality + 0.01);
+
+      if (input.emitting || stateRef.current.particles.length > 0) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [reducedMotion, emitting, style, sprite]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute bottom-0 left-1/2 -translate-x-1/2 pointer-events-none z-30"
+      style={{ width: `${WIDTH}px`, height: `${HEIGHT}px` }}
+    />
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { X, BarChart3, Flame, Trophy, Timer } from "lucide-react";
+import { SmokeRecord } from "../types";
+import { CravingInsights } from "./CravingInsights";
+import {
+  StatsPeriod,
+  bucketize,
+  averageIntervalMinutes,
+  brandBreakdown,
+  hourlyDistribution,
+  computeStreaks,
+} from "../utils/stats";
+import { useI18n } from "../utils/i18n";
+
+const PERIOD_SIZES: Record<StatsPeriod, number> = { day: 14, week: 8, month: 6 };
+const BUCKET_FORMATS: Record<StatsPeriod, Intl.DateTimeFormatOptions> = {
+  day: { month: "numeric", day: "numeric" },
+  week: { month: "numeric", day: "numeric" },
+  month: { month: "short" },
+};
+
+// Plain SVG bars so the dashboard needs no charting library.
+export const BarChart = ({ values, labels, color, format }: { values: number[], labels: string[], color: string, format: (v: number) => string }) => {
+  const max = Math.max(...values, 1);
+  const width = 300;
+  const height = 120;
+  const slot = width / values.length;
+  const barWidth = Math.max(2, slot * 0.7);
+  // Thin the axis labels out so they don't collide
+  const labelEvery = Math.ceil(values.length / 7);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height + 16}`} className="w-full">
+      {values.map((v, i) => {
+        const h = (v / max) * height;
+        return (
+          <g key={i}>
+            <rect x={i * slot + (slot - barWidth) / 2} y={height - h} width={barWidth} height={h} rx={2} fill={color}>
+              <title>{`${labels[i]}: ${format(v)}`}</title>
+            </rect>
+            {i % labelEvery === 0 && (
+              <text x={i * slot + slot / 2} y={height + 12} textAnchor="middle" fontSize="8" fill="#6b7280">{labels[i]}</text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export const StatCard = ({ icon, label, value }: { icon: React.ReactNode, label: string, value: string }) => (
+  <div className="p-4 bg-neutral-900 rounded-xl border border-neutral-800">
+    <div className="flex items-center gap-2 text-xs text-gray-500">{icon}{label}</div>
+    <div className="text-xl font-bold font-mono mt-1">{value}</div>
+  </div>
+);
+
+const Overview = ({ history }: { history: SmokeRecord[] }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [period, setPeriod] = useState<StatsPeriod>("day");
+
+  const buckets = bucketize(history, period, PERIOD_SIZES[period]);
+  const bucketLabels = buckets.map((b) => i18n.date(b.start, BUCKET_FORMATS[period]));
+  const averageInterval = averageIntervalMinutes(history);
+  const streaks = computeStreaks(history);
+  const brands = brandBreakdown(history);
+  const hours = hourlyDistribution(history);
+  const busiestHour = hours.indexOf(Math.max(...hours));
+  const topBrandCount = brands[0]?.count ?? 1;
+
+  return (
+    <div className="flex-1 overflow-y-auto space-y-6 scrollbar-hide">
+      {history.length === 0 && <p className="text-neutral-500 text-center mt-10">{t("stats.empty")}</p>}
+
+      <div className="grid grid-cols-3 gap-3">
+        <StatCard icon={<Flame className="w-3 h-3" />} label={t("stats.streak")} value={t("unit.days", { n: streaks.current })} />
+        <StatCard icon={<Trophy className="w-3 h-3" />} label={t("stats.best")} value={t("unit.days", { n: streaks.longest })} />
+        <StatCard icon={<Timer className="w-3 h-3" />} label={t("stats.avgGap")} value={averageInterval === null ? "—" : i18n.duration(averageInterval * 60000)} />
+      </div>
+
+      <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+        <div className="flex gap-2 mb-4">
+          {(Object.keys(PERIOD_SIZES) as StatsPeriod[]).map((p) => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${period === p ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+            >
+              {t(`stats.period.${p}`)}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mb-2">{t("stats.sessions")}</p>
+        <BarChart values={buckets.map((b) => b.count)} labels={bucketLabels} color="#f97316" format={(v) => `${v}`} />
+        <p className="text-xs text-gray-500 mt-4 mb-2">{t("stats.saved")}</p>
+        <BarChart values={buckets.map((b) => b.saved)} labels={bucketLabels} color="#34d399" format={(v) => i18n.money(v)} />
+      </div>
+
+      <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+        <div className="flex justify-between items-baseline mb-2">
+          <p className="text-xs text-gray-500">{t("stats.busiestHours")}</p>
+          {history.length > 0 && <p className="text-xs text-orange-400 font-mono">{t("stats.peak", { hour: busiestHour })}</p>}
+        </div>
+        <BarChart values={hours} labels={hours.map((_, h) => `${h}`)} color="#60a5fa" format={(v) => `${v}`} />
+      </div>
+
+      {brands.length > 0 && (
+        <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800 space-y-3">
+          <p className="text-xs text-gray-500">{t("stats.byBrand")}</p>
+          {brands.map((b) => (
+            <div key={b.brandName}>
+              <div className="flex justify-between text-sm">
+                <span>{b.brandName}</span>
+                <span className="font-mono text-gray-400">{b.count} · <span className="text-emerald-400">{i18n.money(b.saved)}</span></span>
+              </div>
+              <div className="h-1.5 mt-1 bg-neutral-800 rounded-full overflow-hidden">
+                <div className="h-full bg-yellow-400" style={{ width: `${(b.count / topBrandCount) * 100}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const StatsDashboard = ({ history, onClose }: { history: SmokeRecord[], onClose: () => void }) => {
+  const { t } = useI18n();
+  const [tab, setTab] = useState<"overview" | "cravings">("overview");
+
+  return (
+    <div role="dialog" aria-modal="true" className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-2xl font-bold flex items-center gap-2"><BarChart3 /> {t("stats.title")}</h2>
+        <button onClick={onClose} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {(["overview", "cravings"] as const).map((id) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${tab === id ? "bg-white text-black" : "bg-neutral-800 text-gray-400"}`}
+          >
+            {t(`stats.tab.${id}`)}
+          </button>
+        ))}
+      </div>
+
+      {tab === "cravings" ? (
+        <div className="flex-1 overflow-y-auto scrollbar-hide">
+          <CravingInsights history={history} />
+        </div>
+      ) : (
+        <Overview history={history} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { RefreshCw } from "lucide-react";
+import { SyncStatus } from "../utils/sync";
+import { useI18n } from "../utils/i18n";
+
+const inputClass = "w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white text-sm focus:border-sky-500 focus:outline-none";
+
+const STATUS_COLORS: Record<SyncStatus, string> = {
+  pending: "text-amber-400",
+  syncing: "text-sky-400",
+  synced: "text-emerald-400",
+  offline: "text-gray-400",
+  error: "text-red-400",
+};
+
+// The endpoint only applies on save, so a half-typed URL never gets synced with.
+export const SyncSettings = ({ endpoint, status, lastSyncAt, onEndpointChange, onSyncNow }: {
+  endpoint: string,
+  status: SyncStatus,
+  lastSyncAt: number, // 0 = never
+  onEndpointChange: (endpoint: string) => void,
+  onSyncNow: () => void,
+}) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [draft, setDraft] = useState(endpoint);
+  const edited = draft.trim() !== endpoint;
+
+  return (
+    <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+      <div className="flex items-center gap-2 mb-4 text-sky-400">
+        <RefreshCw className="w-5 h-5" />
+        <span className="font-bold">{t("sync.title")}</span>
+      </div>
+      <label className="text-xs text-gray-500 mb-1 block">{t("sync.endpoint")}</label>
+      <input
+        type="url"
+        className={inputClass}
+        placeholder="http://localhost:8788"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+      />
+      {endpoint && (
+        <p className="text-xs mt-3">
+          <span className={STATUS_COLORS[status]}>{t(`sync.status.${status}`)}</span>
+          <span className="text-gray-500"> · {lastSyncAt ? t("sync.lastSync", { time: i18n.date(lastSyncAt, { dateStyle: "short", timeStyle: "short" }) }) : t("sync.never")}</span>
+        </p>
+      )}
+      <button
+        onClick={() => edited ? onEndpointChange(draft.trim()) : onSyncNow()}
+        disabled={!edited && (!endpoint || status === "syncing")}
+        className="w-full mt-4 py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition disabled:opacity-40"
+      >
+        {edited ? (draft.trim() ? t("sync.connect") : t("sync.disconnect")) : t("sync.now")}
+      </button>
+      <p className="text-gray-500 text-xs mt-3">{t("sync.hint")}</p>
+    </div>
+  );
+};
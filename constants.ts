@@ -0,0 +1,144 @@
+import { Brand, AppSettings, StickSpec, StickType } from "./types";
+
+export const STICK_TYPES: Record<StickType, StickSpec> = {
+  slim: { tobaccoHeight: 300, filterHeight: 80, widthClass: "w-6", burnMs: 50000, ashChunk: 35 },
+  regular: { tobaccoHeight: 300, filterHeight: 80, widthClass: "w-10", burnMs: 60000, ashChunk: 45 },
+  king: { tobaccoHeight: 360, filterHeight: 90, widthClass: "w-10", burnMs: 75000, ashChunk: 50 },
+  cigar: { tobaccoHeight: 380, filterHeight: 0, widthClass: "w-16", burnMs: 180000, ashChunk: 110 },
+  heated: { tobaccoHeight: 180, filterHeight: 110, widthClass: "w-8", burnMs: 45000, ashChunk: 0 },
+};
+
+export const BRANDS: Brand[] = [
+  {
+    id: "marlboro",
+    name: "Marlboro",
+    subName: "万宝路",
+    pricePerStick: 1.5,
+    filterColorClass: "bg-orange-300",
+    filterStyle: {
+      background: `
+        radial-gradient(circle at 2px 2px, rgba(0,0,0,0.1) 1px, transparent 1px),
+        linear-gradient(to right, #a06d48 0%, #d4a373 40%, #8a5a38 100%)
+      `,
+      backgroundSize: "6px 6px, 100% 100%"
+    },
+    bodyColor: "from-gray-200 via-white to-gray-300",
+    textColor: "text-black",
+    widthClass: "w-10",
+    appearance: { filterColor: "#d4a373", filterTexture: "cork", bodyColor: "#ffffff", textColor: "#000000", slim: false },
+    stickType: "regular",
+  },
+  {
+    id: "chunghwa",
+    name: "Chunghwa",
+    subName: "中华",
+    pricePerStick: 3.5,
+    filterColorClass: "bg-red-900",
+    filterStyle: {
+       background: "linear-gradient(to right, #5a0808 0%, #991b1b 40%, #450a0a 100%)"
+    },
+    bodyColor: "from-gray-200 via-white to-gray-300",
+    textColor: "text-red-700",
+    widthClass: "w-10",
+    ringColor: "bg-yellow-400",
+    appearance: { filterColor: "#991b1b", filterTexture: "plain", bodyColor: "#ffffff", textColor: "#b91c1c", slim: false, ringColor: "#facc15" },
+    stickType: "regular",
+  },
+  {
+    id: "esse",
+    name: "Esse",
+    subName: "爱喜",
+    pricePerStick: 1.2,
+    filterColorClass: "bg-white",
+    filterStyle: {
+       background: "linear-gradient(to right, #d1d5db 0%, #ffffff 45%, #9ca3af 100%)"
+    },
+    bodyColor: "from-gray-100 via-white to-gray-200",
+    textColor: "text-blue-400",
+    widthClass: "w-6", // Slim
+    appearance: { filterColor: "#ffffff", filterTexture: "plain", bodyColor: "#ffffff", textColor: "#60a5fa", slim: true },
+    stickType: "slim",
+  },
+  {
+    id: "black_devil",
+    name: "Black Devil",
+    subName: "黑魔鬼",
+    pricePerStick: 2.0,
+    filterColorClass: "bg-black",
+    filterStyle: {
+       background: "linear-gradient(to right, #18181b 0%, #3f3f46 40%, #09090b 100%)"
+    },
+    bodyColor: "from-zinc-800 via-zinc-700 to-zinc-900",
+    textColor: "text-pink-500",
+    widthClass: "w-10",
+    appearance: { filterColor: "#3f3f46", filterTexture: "plain", bodyColor: "#3f3f46", textColor: "#ec4899", slim: false },
+    stickType: "regular",
+  },
+  {
+    id: "cohiba",
+    name: "Cohiba",
+    subName: "高希霸",
+    pricePerStick: 80,
+    filterColorClass: "bg-amber-900",
+    filterStyle: {
+       background: "linear-gradient(to right, #451a03 0%, #78350f 40%, #2d1102 100%)"
+    },
+    bodyColor: "from-[#5c3a1e] via-[#7c4f2a] to-[#4a2e17]",
+    textColor: "text-yellow-400",
+    widthClass: "w-16",
+    ringColor: "bg-yellow-500",
+    appearance: { filterColor: "#78350f", filterTexture: "plain", bodyColor: "#7c4f2a", textColor: "#facc15", slim: false, ringColor: "#eab308" },
+    stickType: "cigar",
+  },
+  {
+    id: "heets",
+    name: "Heets",
+    subName: "加热烟弹",
+    pricePerStick: 1.5,
+    filterColorClass: "bg-white",
+    filterStyle: {
+       background: "linear-gradient(to right, #cbd5e1 0%, #f8fafc 45%, #94a3b8 100%)"
+    },
+    bodyColor: "from-teal-700 via-teal-500 to-teal-800",
+    textColor: "text-white",
+    widthClass: "w-8",
+    appearance: { filterColor: "#f8fafc", filterTexture: "plain", bodyColor: "#14b8a6", textColor: "#ffffff", slim: false },
+    stickType: "heated",
+  },
+];
+
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  reminderWindows: [{ start: "09:00", end: "22:00", days: ALL_WEEKDAYS }],
+  intervalMinutes: 60,
+  dailyReminderCap: 0,
+  notificationsEnabled: false,
+  smokingMode: "auto",
+  breathingPattern: "simple",
+  cravingPrompt: true,
+  customTriggers: [],
+  messageProvider: "offline",
+  messageTone: "witty",
+  geminiApiKey: "",
+  messageEndpoint: "",
+  locale: "auto",
+  currency: "CNY",
+  lastCigaretteAt: 0,
+  appMode: "smoke",
+  breakType: "walk",
+  breakMinutes: 5,
+  soundVolume: 0.6,
+  feedbackEffects: ["ignition", "crackle", "exhale", "haptics"],
+  quietInActiveHours: false,
+  priceSource: "latest",
+  syncEndpoint: "",
+};
+
+// Burn timing (ms to burn the whole stick at each rate)
+export const AUTO_BURN_DURATION = 60000;
+export const PUFF_BURN_DURATION = 15000; // only while drawing
+export const IDLE_BURN_DURATION = 300000; // smouldering between puffs
+
+// Break timer lengths offered in break mode (minutes)
+export const BREAK_LENGTHS = [3, 5, 10, 15];
@@ -1,286 +1,668 @@
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { createRoot } from "react-dom/client";
-import { Settings, History, Flame, X, ChevronLeft, ChevronRight, RotateCcw, Bell, Clock } from "lucide-react";
-import { GoogleGenAI } from "@google/genai";
-
-// --- Types & Constants ---
-
-interface Brand {
-  id: string;
-  name: string;
-  subName: string;
-  pricePerStick: number; // in CNY
-  filterColorClass: string; // Tailwind classes for basic color
-  filterStyle?: React.CSSProperties; // Inline styles for complex gradients/textures
-  bodyColor: string;
-  textColor: string;
-  widthClass: string;
-  ringColor?: string;
-}
+import { Settings, History, Flame, X, ChevronLeft, ChevronRight, RotateCcw, Pause, Play, Share2, Bell, Package, Wind, BarChart3, Target, Cigarette, NotebookPen, Languages, HeartPulse, PartyPopper, PiggyBank, Coffee, Briefcase, Receipt, CloudCheck, CloudUpload, CloudOff, CloudAlert, RefreshCw } from "lucide-react";
+import { Brand, SmokeRecord, AppSettings, SmokingMode, BreathingPatternId, QuitPlan, Locale, SavingsGoal, AppMode, BreakRecord, BreakType, PackPurchase, PriceSource } from "./types";
+import { DEFAULT_SETTINGS, BREAK_LENGTHS } from "./constants";
+import { loadBrands, saveBrands, resetBrands, stickSpec, stickTypeOf, burnDuration, recordBrand } from "./utils/brands";
+import { loadHistory, loadFallbackHistory, saveRecord, replaceHistory, loadSettings, saveSettings, loadReminderState, saveReminderState, loadPlan, savePlan, loadGoals, saveGoals, loadBreaks, saveBreaks, loadSession, saveSession, loadPurchases, savePurchases } from "./utils/storage";
+import { planProgress } from "./utils/quitPlan";
+import { netSummary, computeStreaks } from "./utils/stats";
+import { recoveryStart, recoveryProgress, milestonesReachedBetween } from "./utils/recovery";
+import { activeGoals, addSavings, rebalanceGoals } from "./utils/goals";
+import { BREAK_TYPES, breakStats, focusSince } from "./utils/breaks";
+import { effectivePrice, packsNotBought } from "./utils/pricing";
+import { SyncState, SyncStatus, HistoryChanges, EMPTY_SYNC_STATE, loadSyncState, saveSyncState, hasPending, diffHistory, queueChanges, queueSettings, sharedSettingsChanged, mergeRecords, mergeSettings, afterPull, buildPush, isEmptyPush, markPushed, pullChanges, pushChanges } from "./utils/sync";
+import { getMotivationalMessage } from "./utils/motivation";
+import { Crackle, soundEnabled, playIgnition, playExhale, startCrackle } from "./utils/audio";
+import { vibrate } from "./utils/haptics";
+import { Session, MIN_PARTIAL_BURN, burnRates, lightSession, settle, pauseSession, resumeSession, startPuff, stopPuff, abandonSession, isSessionActive, sessionProgress, sessionActiveMs } from "./utils/session";
+import { ReminderState, getNextReminder, isReminderDue, markReminderSent, snoozeReminders } from "./utils/reminders";
+import {
+  ServiceWorkerMessage,
+  ReminderNotification,
+  registerServiceWorker,
+  scheduleBackgroundReminder,
+  showReminderNotification,
+  collectBackgroundReminders,
+  onServiceWorkerMessage,
+  consumeLaunchAction,
+} from "./utils/pwa";
+import { BrandEditor } from "./components/BrandEditor";
+import { BreathingCoach } from "./components/BreathingCoach";
+import { StatsDashboard } from "./components/StatsDashboard";
+import { BackupPanel } from "./components/BackupPanel";
+import { ReminderSettings } from "./components/ReminderSettings";
+import { QuitPlanView } from "./components/QuitPlanView";
+import { RecoveryTimeline } from "./components/RecoveryTimeline";
+import { GoalsView } from "./components/GoalsView";
+import { PurchaseLog } from "./components/PurchaseLog";
+import { ShareCard } from "./components/ShareCard";
+import { BreakTimer, BREAK_ICONS } from "./components/BreakTimer";
+import { BreakLog } from "./components/BreakLog";
+import { SmokeCanvas } from "./components/SmokeCanvas";
+import { HistoryModal } from "./components/HistoryModal";
+import { CravingPrompt, CravingScale } from "./components/CravingPrompt";
+import { CravingEntry } from "./utils/cravings";
+import { MessageSettings } from "./components/MessageSettings";
+import { FeedbackSettings } from "./components/FeedbackSettings";
+import { SyncSettings } from "./components/SyncSettings";
+import { BREATHING_PATTERNS, getBreathingPattern, getBreathState } from "./utils/breathing";
+import { useFocusTrap } from "./utils/focusTrap";
+import { I18n, I18nContext, createI18n, resolveLocale, LOCALES, CURRENCIES } from "./utils/i18n";
 
-const BRANDS: Brand[] = [
-  {
-    id: "marlboro",
-    name: "Marlboro",
-    subName: "万宝路",
-    pricePerStick: 1.5,
-    filterColorClass: "bg-orange-300",
-    filterStyle: {
-      background: `
-        radial-gradient(circle at 2px 2px, rgba(0,0,0,0.1) 1px, transparent 1px),
-        linear-gradient(to right, #a06d48 0%, #d4a373 40%, #8a5a38 100%)
-      `,
-      backgroundSize: "6px 6px, 100% 100%"
-    },
-    bodyColor: "from-gray-200 via-white to-gray-300",
-    textColor: "text-black",
-    widthClass: "w-10",
-  },
-  {
-    id: "chunghwa",
-    name: "Chunghwa",
-    subName: "中华",
-    pricePerStick: 3.5,
-    filterColorClass: "bg-red-900",
-    filterStyle: {
-       background: "linear-gradient(to right, #5a0808 0%, #991b1b 40%, #450a0a 100%)"
-    },
-    bodyColor: "from-gray-200 via-white to-gray-300",
-    textColor: "text-red-700",
-    widthClass: "w-10",
-    ringColor: "bg-yellow-400"
-  },
-  {
-    id: "esse",
-    name: "Esse",
-    subName: "爱喜",
-    pricePerStick: 1.2,
-    filterColorClass: "bg-white",
-    filterStyle: {
-       background: "linear-gradient(to right, #d1d5db 0%, #ffffff 45%, #9ca3af 100%)"
-    },
-    bodyColor: "from-gray-100 via-white to-gray-200",
-    textColor: "text-blue-400",
-    widthClass: "w-6", // Slim
-  },
-  {
-    id: "black_devil",
-    name: "Black Devil",
-    subName: "黑魔鬼",
-    pricePerStick: 2.0,
-    filterColorClass: "bg-black",
-    filterStyle: {
-       background: "linear-gradient(to right, #18181b 0%, #3f3f46 40%, #09090b 100%)"
-    },
-    bodyColor: "from-zinc-800 via-zinc-700 to-zinc-900",
-    textColor: "text-pink-500",
-    widthClass: "w-10",
-  }
-];
-
-interface SmokeRecord {
-  id: number;
-  date: string;
-  timestamp: number;
-  brandName: string;
-  savedAmount: number;
-}
-
-interface AppSettings {
-  startTime: string; // "09:00"
-  endTime: string;   // "21:00"
-  intervalMinutes: number;
-  notificationsEnabled: boolean;
-}
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_DELAY_MS = 2000; // lets a burst of edits go out in one push
 
-const DEFAULT_SETTINGS: AppSettings = {
-  startTime: "09:00",
-  endTime: "22:00",
-  intervalMinutes: 60,
-  notificationsEnabled: false,
+const SYNC_ICONS: Record<SyncStatus, React.ReactNode> = {
+  pending: <CloudUpload className="w-5 h-5 text-amber-400" />,
+  syncing: <RefreshCw className="w-5 h-5 text-sky-400 animate-spin" />,
+  synced: <CloudCheck className="w-5 h-5 text-emerald-400" />,
+  offline: <CloudOff className="w-5 h-5 text-gray-400" />,
+  error: <CloudAlert className="w-5 h-5 text-red-400" />,
 };
 
-// --- Gemini AI Integration ---
-const getMotivationalMessage = async (savedAmount: number) => {
-  try {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const model = ai.models.getGenerativeModel({ model: "gemini-2.5-flash" });
-    
-    const prompt = `You are a witty, slightly dark-humored smoking cessation assistant. The user just finished a "virtual cigarette" instead of a real one, saving ${savedAmount.toFixed(2)} CNY. 
-    Give them a very short (max 20 words), punchy fact about health or money they saved. Language: Chinese.`;
-    
-    const result = await model.generateContent({ contents: prompt });
-    return result.response.text;
-  } catch (error) {
-    console.error("AI Error", error);
-    return "肺部感谢你！";
+const reminderNotification = (i18n: I18n, mode: AppMode, activity: { timestamp: number }[], now: number): ReminderNotification => {
+  const last = activity.length > 0 ? activity[0].timestamp : 0;
+  if (mode === "break") {
+    return {
+      title: i18n.t("break.reminderTitle"),
+      body: last
+        ? i18n.t("break.reminderBody", { elapsed: i18n.duration(now - last) })
+        : i18n.t("break.reminderBodyFirst"),
+      lightLabel: i18n.t("break.start"),
+      snoozeLabel: i18n.t("reminder.snooze", { duration: i18n.duration(10 * 60000) }),
+    };
   }
+  return {
+    title: i18n.t("reminder.title"),
+    body: last
+      ? i18n.t("reminder.body", { elapsed: i18n.duration(now - last) })
+      : i18n.t("reminder.bodyFirst"),
+    lightLabel: i18n.t("main.light"),
+    snoozeLabel: i18n.t("reminder.snooze", { duration: i18n.duration(10 * 60000) }),
+  };
 };
 
 // --- Components ---
 
 const App = () => {
   // --- State ---
+  const [brands, setBrands] = useState<Brand[]>(loadBrands);
   const [currentBrandIndex, setCurrentBrandIndex] = useState(0);
-  const [isSmoking, setIsSmoking] = useState(false);
-  const [progress, setProgress] = useState(0); // 0 to 100%
+  const [session, setSession] = useState<Session | null>(null);
+  const [clock, setClock] = useState(Date.now()); // drives the burn while a session is lit
   const [history, setHistory] = useState<SmokeRecord[]>([]);
+  const [historyLoaded, setHistoryLoaded] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [showHistory, setShowHistory] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [showBrandEditor, setShowBrandEditor] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [reminderState, setReminderState] = useState<ReminderState>(loadReminderState);
+  const [reminderDue, setReminderDue] = useState(false);
+  const [plan, setPlan] = useState<QuitPlan | null>(loadPlan);
+  const [showPlan, setShowPlan] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
+  const [now, setNow] = useState(Date.now()); // drives the recovery countdowns
+  const [goals, setGoals] = useState<SavingsGoal[]>(loadGoals);
+  const [showGoals, setShowGoals] = useState(false);
+  const [purchases, setPurchases] = useState<PackPurchase[]>(loadPurchases);
+  const [showPurchases, setShowPurchases] = useState(false);
+  const [reachedGoals, setReachedGoals] = useState<SavingsGoal[]>([]);
+  const [breaks, setBreaks] = useState<BreakRecord[]>(loadBreaks);
+  const [breakStartedAt, setBreakStartedAt] = useState<number | null>(null);
+  const [breakElapsed, setBreakElapsed] = useState(0);
+  const [lastBreak, setLastBreak] = useState<BreakRecord | null>(null);
+  const [showBreakLog, setShowBreakLog] = useState(false);
+  const [showCravingPrompt, setShowCravingPrompt] = useState(false);
   const [aiMessage, setAiMessage] = useState<string | null>(null);
   const [showSummary, setShowSummary] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [announcement, setAnnouncement] = useState(""); // read out by screen readers
+  const [lastRecord, setLastRecord] = useState<SmokeRecord | null>(null);
+  const [launchAction, setLaunchAction] = useState<string | null>(null); // ?action= from a notification or shortcut
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => hasPending(loadSyncState()) ? "pending" : "synced");
   
   // --- Refs ---
-  const smokeIntervalRef = useRef<number | null>(null);
   const reminderIntervalRef = useRef<number | null>(null);
+  const sessionRef = useRef<Session | null>(null); // latest session for event handlers and the burn loop
+  const settingsDialogRef = useRef<HTMLDivElement>(null);
+  const syncStateRef = useRef<SyncState>(loadSyncState());
+  const historyRef = useRef<SmokeRecord[]>([]); // latest history for a sync that spans renders
+  historyRef.current = history;
+  const syncingRef = useRef(false);
+
+  const i18n: I18n = useMemo(() => createI18n(resolveLocale(settings.locale), settings.currency), [settings.locale, settings.currency]);
+  const { t } = i18n;
 
-  // Load data
   useEffect(() => {
-    const savedHistory = localStorage.getItem("smoke_history");
-    if (savedHistory) setHistory(JSON.parse(savedHistory));
+    document.documentElement.lang = i18n.locale;
+  }, [i18n.locale]);
+
+  const breakMode = settings.appMode === "break";
+  // Reminders count from the last break in break mode and from the last cigarette otherwise
+  const activity = breakMode ? breaks : history;
+
+  const isSmoking = isSessionActive(session);
+  const paused = session?.status === "paused";
+  const isPuffing = session?.puffing ?? false;
+  const progress = session ? sessionProgress(session, clock) * 100 : 0; // 0 to 100%
+  const sessionElapsed = session ? sessionActiveMs(session, clock) : 0;
 
-    const savedSettings = localStorage.getItem("smoke_settings");
-    if (savedSettings) setSettings(JSON.parse(savedSettings));
+  // Load data
+  useEffect(() => {
+    // A failed IndexedDB open or read still leaves the localStorage copy to work with
+    loadHistory().catch((error) => {
+      console.error("Loading history failed, using the localStorage copy", error);
+      return loadFallbackHistory();
+    }).then((records) => {
+      setHistory(records);
+      setHistoryLoaded(true);
+      // Pick up a session left lit or paused before a reload, once there's a history to add it to.
+      // One that burned out in the meantime is recorded by the burn loop on its first tick.
+      const saved = loadSession();
+      if (!saved || isSessionActive(sessionRef.current)) return;
+      const brandIndex = brands.findIndex((b) => b.id === saved.brandId);
+      if (brandIndex >= 0) setCurrentBrandIndex(brandIndex);
+      setClock(Date.now());
+      updateSession(saved);
+    });
+    setSettings(loadSettings());
   }, []);
 
   // Save Settings
   const updateSettings = (newSettings: AppSettings) => {
+    if (newSettings.syncEndpoint !== settings.syncEndpoint) {
+      // A different server starts from scratch and gets the whole history
+      updateSyncState(newSettings.syncEndpoint ? queueChanges(EMPTY_SYNC_STATE, { changed: history.map((r) => r.id), deleted: [] }) : EMPTY_SYNC_STATE);
+    } else if (newSettings.syncEndpoint && sharedSettingsChanged(settings, newSettings)) {
+      updateSyncState(queueSettings(syncStateRef.current));
+      setSyncStatus("pending");
+    }
     setSettings(newSettings);
-    localStorage.setItem("smoke_settings", JSON.stringify(newSettings));
+    saveSettings(newSettings);
+  };
+
+  // Save Brands
+  const updateBrands = (newBrands: Brand[]) => {
+    const current = brands[currentBrandIndex];
+    const keptIndex = newBrands.findIndex((b) => b.id === current?.id);
+    setBrands(newBrands);
+    setCurrentBrandIndex(keptIndex >= 0 ? keptIndex : 0);
+    saveBrands(newBrands);
+  };
+
+  // Drops the stored list rather than saving today's defaults, so brands added later still show up
+  const restoreBrands = () => {
+    const current = brands[currentBrandIndex];
+    const defaults = resetBrands();
+    setBrands(defaults);
+    setCurrentBrandIndex(Math.max(0, defaults.findIndex((b) => b.id === current?.id)));
+  };
+
+  // Save Plan
+  const updatePlan = (newPlan: QuitPlan | null) => {
+    setPlan(newPlan);
+    savePlan(newPlan);
+  };
+
+  // Save Goals
+  const updateGoals = (newGoals: SavingsGoal[]) => {
+    setGoals(newGoals);
+    saveGoals(newGoals);
+  };
+
+  const updateBreaks = (newBreaks: BreakRecord[]) => {
+    setBreaks(newBreaks);
+    saveBreaks(newBreaks);
+  };
+
+  const updatePurchases = (newPurchases: PackPurchase[]) => {
+    setPurchases(newPurchases);
+    savePurchases(newPurchases);
+  };
+
+  // The per-stick price new records are made with
+  const priceOf = (brand: Brand) => effectivePrice(brand, purchases, settings.priceSource);
+
+  // Edits from the History modal replace the whole list
+  const updateHistory = (records: SmokeRecord[]) => {
+    queueSync(diffHistory(history, records));
+    setHistory(records);
+    replaceHistory(records);
+  };
+
+  // Edits, deletes and undos in the History modal move their savings in or out of the goals
+  // they funded. Returns the goals the change completed, for the modal to celebrate.
+  const editHistory = (records: SmokeRecord[]) => {
+    const rebalanced = rebalanceGoals(goals, history, records);
+    updateGoals(rebalanced.goals);
+    updateHistory(rebalanced.records);
+    if (rebalanced.completed.length > 0) vibrate(settings, "finish");
+    return rebalanced.completed;
+  };
+
+  // Import Backup
+  const importHistory = (
+    records: SmokeRecord[],
+    importedSettings?: AppSettings,
+    importedPlan?: QuitPlan | null,
+    importedGoals?: SavingsGoal[],
+    importedBreaks?: BreakRecord[],
+    importedPurchases?: PackPurchase[],
+  ) => {
+    updateHistory(records);
+    // Backups never carry the API key, so keep the one on this device, and its sync server
+    if (importedSettings) updateSettings({ ...importedSettings, geminiApiKey: importedSettings.geminiApiKey || settings.geminiApiKey, syncEndpoint: settings.syncEndpoint });
+    if (importedPlan !== undefined) updatePlan(importedPlan);
+    if (importedGoals !== undefined) updateGoals(importedGoals);
+    if (importedBreaks !== undefined) updateBreaks(importedBreaks);
+    if (importedPurchases !== undefined) updatePurchases(importedPurchases);
+  };
+
+  // Sync: pull first so the cursor covers everything before the push, then push the queue
+  const updateSyncState = (state: SyncState) => {
+    syncStateRef.current = state;
+    saveSyncState(state);
+  };
+
+  // Local changes wait in the queue; pulled ones never go back out
+  const queueSync = (changes: HistoryChanges) => {
+    if (!settings.syncEndpoint || (changes.changed.length === 0 && changes.deleted.length === 0)) return;
+    updateSyncState(queueChanges(syncStateRef.current, changes));
+    setSyncStatus("pending");
   };
 
+  const runSync = async () => {
+    const endpoint = settings.syncEndpoint;
+    if (!endpoint || !historyLoaded || syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncStatus("syncing");
+    try {
+      const pull = await pullChanges(endpoint, syncStateRef.current.cursor);
+      if (pull.records.length > 0 || pull.deleted.length > 0) {
+        const merged = mergeRecords(historyRef.current, pull, syncStateRef.current);
+        historyRef.current = merged;
+        setHistory(merged);
+        replaceHistory(merged);
+      }
+      const pulledSettings = mergeSettings(settings, syncStateRef.current, pull.settings);
+      if (pulledSettings) {
+        setSettings(pulledSettings);
+        saveSettings(pulledSettings);
+      }
+      updateSyncState(afterPull(syncStateRef.current, pull, !!pulledSettings));
+
+      const push = buildPush(syncStateRef.current, historyRef.current, pulledSettings ?? settings);
+      if (!isEmptyPush(push)) {
+        await pushChanges(endpoint, push);
+        updateSyncState(markPushed(syncStateRef.current, push));
+      }
+      updateSyncState({ ...syncStateRef.current, lastSyncAt: Date.now() });
+      setSyncStatus(hasPending(syncStateRef.current) ? "pending" : "synced");
+    } catch (error) {
+      console.warn("Sync failed, changes stay queued", error);
+      setSyncStatus(navigator.onLine ? "error" : "offline");
+    } finally {
+      syncingRef.current = false;
+    }
+  };
+  const syncHandlerRef = useRef(runSync);
+  syncHandlerRef.current = runSync;
+
+  useEffect(() => {
+    if (!settings.syncEndpoint || !historyLoaded) return;
+    syncHandlerRef.current();
+    const id = window.setInterval(() => syncHandlerRef.current(), SYNC_INTERVAL_MS);
+    const onOnline = () => syncHandlerRef.current();
+    window.addEventListener("online", onOnline);
+    return () => {
+      clearInterval(id);
+      window.removeEventListener("online", onOnline);
+    };
+  }, [settings.syncEndpoint, historyLoaded]);
+
+  useEffect(() => {
+    if (syncStatus !== "pending") return;
+    const id = window.setTimeout(() => syncHandlerRef.current(), SYNC_DELAY_MS);
+    return () => clearTimeout(id);
+  }, [syncStatus]);
+
   // Notification Logic
   const requestNotificationPermission = async () => {
     if (!("Notification" in window)) {
-      alert("This browser does not support desktop notification");
+      alert(t("notifications.unsupported"));
       return;
     }
     const permission = await Notification.requestPermission();
     if (permission === "granted") {
       updateSettings({ ...settings, notificationsEnabled: true });
-      new Notification("Reminders Enabled", { body: "You will be reminded to take a break." });
+      new Notification(t("notifications.enabledTitle"), { body: t("notifications.enabledBody") });
     }
   };
 
+  // Recovery countdowns only need minute precision
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(id);
+  }, []);
+
   // Reminder Check Loop
+  const updateReminderState = (newState: ReminderState) => {
+    setReminderState(newState);
+    saveReminderState(newState);
+  };
+
+  const snooze = (minutes: number) => {
+    updateReminderState(snoozeReminders(reminderState, minutes, Date.now()));
+    setReminderDue(false);
+  };
+
   useEffect(() => {
     if (reminderIntervalRef.current) clearInterval(reminderIntervalRef.current);
 
     reminderIntervalRef.current = window.setInterval(() => {
-      if (!settings.notificationsEnabled) return;
+      const now = Date.now();
+      if (!isReminderDue(settings, activity, reminderState, now)) return;
 
-      const now = new Date();
-      const currentTime = now.getHours() * 60 + now.getMinutes();
-      
-      // Parse Start/End times
-      const [startH, startM] = settings.startTime.split(":").map(Number);
-      const [endH, endM] = settings.endTime.split(":").map(Number);
-      const startTotal = startH * 60 + startM;
-      const endTotal = endH * 60 + endM;
-
-      // Check if within active hours
-      if (currentTime < startTotal || currentTime > endTotal) return;
-
-      // Check time since last smoke
-      const lastSmoke = history.length > 0 ? history[0].timestamp : 0;
-      const minutesSinceLast = (Date.now() - lastSmoke) / 60000;
-
-      if (minutesSinceLast >= settings.intervalMinutes) {
-        // Check if we already notified recently (to avoid spam, not implemented here for simplicity, assuming browser debounces or user acts)
-        // For a real app, we'd track 'lastNotificationTime'
-        if (document.hidden) {
-           new Notification("Time for a Smoke Break?", { 
-             body: `It's been ${Math.floor(minutesSinceLast)} minutes. Have a virtual cigarette!`,
-             icon: "https://cdn-icons-png.flaticon.com/512/305/305106.png"
-           });
-        }
+      // Recording the reminder pushes the next one a full interval out
+      updateReminderState(markReminderSent(reminderState, now));
+
+      if (document.hidden) {
+        showReminderNotification(reminderNotification(i18n, settings.appMode, activity, now));
+      } else {
+        setReminderDue(true);
       }
-    }, 60000); // Check every minute
+    }, 30000); // Check twice a minute
 
     return () => {
       if (reminderIntervalRef.current) clearInterval(reminderIntervalRef.current);
     };
-  }, [settings, history]);
+  }, [settings, activity, reminderState, i18n]);
+
+  // Hand the schedule to the service worker for when the tab is closed
+  useEffect(() => {
+    const now = Date.now();
+    scheduleBackgroundReminder(getNextReminder(settings, activity, reminderState, now), reminderNotification(i18n, settings.appMode, activity, now));
+  }, [settings, activity, reminderState, i18n]);
 
+  // Service worker messages: notification actions and reminders shown while closed
+  const handleWorkerMessage = (message: ServiceWorkerMessage) => {
+    if (message.type === "light") {
+      if (breakMode) startBreak();
+      else requestSmoke();
+    } else if (message.type === "snooze") {
+      snooze(message.minutes);
+    } else if (message.type === "collected") {
+      let state = reminderState;
+      message.shown.forEach((t) => { state = markReminderSent(state, t); });
+      if (message.snoozeUntil > state.snoozeUntil) state = { ...state, snoozeUntil: message.snoozeUntil };
+      updateReminderState(state);
+    }
+  };
+  const workerHandlerRef = useRef(handleWorkerMessage);
+  workerHandlerRef.current = handleWorkerMessage;
+
+  useEffect(() => {
+    registerServiceWorker().then(collectBackgroundReminders);
+    const unsubscribe = onServiceWorkerMessage((message) => workerHandlerRef.current(message));
+    setLaunchAction(consumeLaunchAction());
+    return unsubscribe;
+  }, []);
+
+  // Set in the same render as the loaded settings, so the action sees the mode and the craving journal setting
+  useEffect(() => {
+    if (launchAction !== "light") return;
+    setLaunchAction(null);
+    handleWorkerMessage({ type: "light" });
+  }, [launchAction]);
 
   // Smoking Logic
-  const startSmoking = () => {
+  // The main button goes through the craving journal first when it's enabled
+  const requestSmoke = () => {
     if (isSmoking) return;
+    if (settings.cravingPrompt) {
+      setShowCravingPrompt(true);
+    } else {
+      startSmoking();
+    }
+  };
+
+  // Every session change goes through here so the ref, the render and the saved copy agree
+  const updateSession = (next: Session | null) => {
+    sessionRef.current = next;
+    setSession(next);
+    saveSession(next);
+  };
+
+  // Applies a transition to the running session; one that leaves it over ends it
+  const transition = (step: (s: Session, now: number) => Session) => {
+    const current = sessionRef.current;
+    if (!isSessionActive(current)) return;
+    const now = Date.now();
+    const next = step(current, now);
+    setClock(now);
+    if (isSessionActive(next)) updateSession(next);
+    else endSession(next);
+  };
+
+  const startSmoking = (craving: CravingEntry | null = null) => {
+    if (isSessionActive(sessionRef.current)) return;
     
+    setReminderDue(false);
+    setShowCravingPrompt(false);
+
     // Reset state for new cigarette
-    setProgress(0);
     setAiMessage(null);
     setShowSummary(false);
-    
-    setIsSmoking(true);
-  };
+    setReachedGoals([]);
 
-  const stopSmoking = () => {
-    if (smokeIntervalRef.current) {
-      clearInterval(smokeIntervalRef.current);
-      smokeIntervalRef.current = null;
-    }
-    setIsSmoking(false);
+    const brand = brands[currentBrandIndex];
+    const startedAt = Date.now();
+    setClock(startedAt);
+    updateSession(lightSession({ brandId: brand.id, mode: settings.smokingMode, rates: burnRates(brand), craving }, startedAt));
+    if (soundEnabled(settings, "ignition", startedAt)) playIgnition(settings.soundVolume);
+    vibrate(settings, "light");
   };
 
+  // Putting it out early still counts, as a partial session
+  const stopSmoking = () => transition(abandonSession);
+
+  const togglePause = () => transition((s, now) => (s.status === "paused" ? resumeSession(s, now) : pauseSession(s, now)));
+
   const resetCigarette = () => {
-    setIsSmoking(false);
-    setProgress(0);
+    updateSession(null);
     setShowSummary(false);
+    setReachedGoals([]);
     setAiMessage(null);
   }
 
-  // Simulation Effect
+  // Break Logic (break mode)
+  const startBreak = () => {
+    if (breakStartedAt !== null) return;
+    setReminderDue(false);
+    setLastBreak(null);
+    setBreakElapsed(0);
+    setBreakStartedAt(Date.now());
+  };
+
+  const endBreak = () => {
+    if (breakStartedAt === null) return;
+    const newBreak: BreakRecord = {
+      id: Date.now(),
+      type: settings.breakType,
+      timestamp: breakStartedAt,
+      durationMs: Date.now() - breakStartedAt,
+    };
+    const newBreaks = [newBreak, ...breaks];
+    updateBreaks(newBreaks);
+    setLastBreak(newBreak);
+    setBreakStartedAt(null);
+  };
+
+  // The break timer only needs second precision
   useEffect(() => {
-    if (isSmoking) {
-      const DURATION = 60000; // 60 seconds normally
-      const TICK = 50;
-      const increment = (TICK / DURATION) * 100;
-
-      smokeIntervalRef.current = window.setInterval(() => {
-        setProgress((prev) => {
-          if (prev >= 100) {
-            finishSmoking();
-            return 100;
-          }
-          return prev + increment;
-        });
-      }, TICK);
-    } else {
-      if (smokeIntervalRef.current) clearInterval(smokeIntervalRef.current);
-    }
+    if (breakStartedAt === null) return;
+    const id = window.setInterval(() => setBreakElapsed(Date.now() - breakStartedAt), 1000);
+    return () => clearInterval(id);
+  }, [breakStartedAt]);
+
+  // Puff Logic (hold-to-puff mode)
+  const beginPuff = () => {
+    const current = sessionRef.current;
+    if (current?.status !== "lit" || current.mode !== "puff" || current.puffing) return;
+    transition(startPuff);
+    vibrate(settings, "puff");
+  };
+
+  const endPuff = () => {
+    if (!sessionRef.current?.puffing) return;
+    transition(stopPuff);
+    if (soundEnabled(settings, "exhale", Date.now())) playExhale(settings.soundVolume);
+  };
+
+  const puffHandlersRef = useRef({ beginPuff, endPuff });
+  puffHandlersRef.current = { beginPuff, endPuff };
+
+  // Spacebar puffs
+  useEffect(() => {
+    if (!isSmoking || session?.mode !== "puff") return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space") return;
+      e.preventDefault();
+      if (!e.repeat) puffHandlersRef.current.beginPuff();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") puffHandlersRef.current.endPuff();
+    };
 
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
     return () => {
-      if (smokeIntervalRef.current) clearInterval(smokeIntervalRef.current);
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
     };
-  }, [isSmoking]);
+  }, [isSmoking, session?.mode]);
 
-  const finishSmoking = async () => {
-    if (smokeIntervalRef.current) clearInterval(smokeIntervalRef.current);
-    setIsSmoking(false);
+  // Burn loop: the session keeps its own time, so a tick only refreshes the display and notices the end
+  const onBurnTick = () => {
+    const current = sessionRef.current;
+    if (current?.status !== "lit") return;
+    const now = Date.now();
+    if (settle(current, now).status === "finished") transition(settle);
+    else setClock(now);
+  };
+  const burnTickRef = useRef(onBurnTick);
+  burnTickRef.current = onBurnTick;
+
+  useEffect(() => {
+    if (session?.status !== "lit") return;
+    const id = window.setInterval(() => burnTickRef.current(), 50);
+    return () => clearInterval(id);
+  }, [session?.status]);
+
+  const endSession = async (ended: Session) => {
+    const partial = ended.status === "abandoned";
+    if (partial && ended.burned < MIN_PARTIAL_BURN) {
+      updateSession(null);
+      return;
+    }
+    updateSession(ended);
     setShowSummary(true);
+    vibrate(settings, "finish");
 
-    const brand = BRANDS[currentBrandIndex];
+    const brand = brands.find((b) => b.id === ended.brandId) ?? brands[currentBrandIndex];
+    const puffMode = ended.mode === "puff";
+    const endedAt = ended.endedAt ?? Date.now();
+    const durationMs = ended.activeMs;
+    const burned = Math.round(ended.burned * 100) / 100;
+    const price = priceOf(brand);
+    // Put out early, it only saved the part that burned
+    const savedAmount = partial ? Math.round(price * burned * 100) / 100 : price;
+    const pattern = settings.breathingPattern !== "off" ? getBreathingPattern(settings.breathingPattern) : undefined;
+    // What this one saved goes to the current savings goal
+    const funded = addSavings(goals, savedAmount, endedAt);
     const newRecord: SmokeRecord = {
       id: Date.now(),
-      date: new Date().toLocaleString(),
-      timestamp: Date.now(),
+      kind: "virtual",
+      date: new Date(endedAt).toLocaleString(),
+      timestamp: endedAt,
       brandName: brand.name,
-      savedAmount: brand.pricePerStick,
+      brandId: brand.id,
+      savedAmount,
+      pricePerStick: price,
+      durationMs,
+      burned: partial ? burned : undefined,
+      puffCount: puffMode ? ended.puffCount : undefined,
+      inhaleMs: puffMode ? ended.inhaleMs : undefined,
+      breathCycles: pattern ? getBreathState(pattern, durationMs).cycles : undefined,
+      cravingBefore: ended.craving?.intensity,
+      triggers: ended.craving && ended.craving.triggers.length > 0 ? ended.craving.triggers : undefined,
+      funded: funded.funded.length > 0 ? funded.funded : undefined,
     };
 
+    setLastRecord(newRecord);
     const newHistory = [newRecord, ...history];
     setHistory(newHistory);
-    localStorage.setItem("smoke_history", JSON.stringify(newHistory));
+    saveRecord(newRecord, newHistory);
+    queueSync({ changed: [newRecord.id], deleted: [] });
 
-    // Trigger AI
-    const msg = await getMotivationalMessage(brand.pricePerStick);
+    updateGoals(funded.goals);
+    setReachedGoals(funded.completed);
+
+    // Motivational message from the chosen provider
+    const virtualRecords = newHistory.filter((r) => r.kind === "virtual");
+    const msg = await getMotivationalMessage(settings, {
+      savedAmount,
+      totalSaved: virtualRecords.reduce((acc, r) => acc + r.savedAmount, 0),
+      sessionCount: virtualRecords.length,
+      streak: computeStreaks(virtualRecords).current,
+      tone: settings.messageTone,
+      locale: i18n.locale,
+      currency: i18n.currency,
+    });
     setAiMessage(msg);
   };
 
+  // Craving journal: the "after" rating lands on the record just saved
+  const rateCravingAfter = (intensity: number) => {
+    if (!lastRecord) return;
+    const updated = { ...lastRecord, cravingAfter: intensity };
+    const newHistory = history.map((r) => (r.id === updated.id ? updated : r));
+    setLastRecord(updated);
+    setHistory(newHistory);
+    saveRecord(updated, newHistory);
+    queueSync({ changed: [updated.id], deleted: [] });
+  };
+
+  const addCustomTrigger = (trigger: string) => {
+    updateSettings({ ...settings, customTriggers: [...settings.customTriggers, trigger] });
+  };
+
+  // Real cigarettes count against the quit plan and cost money instead of saving it
+  const logRealCigarette = () => {
+    if (isSmoking) return;
+    const brand = brands[currentBrandIndex];
+    const price = priceOf(brand);
+    const newRecord: SmokeRecord = {
+      id: Date.now(),
+      kind: "real",
+      date: new Date().toLocaleString(),
+      timestamp: Date.now(),
+      brandName: brand.name,
+      brandId: brand.id,
+      savedAmount: 0,
+      spentAmount: price,
+      pricePerStick: price,
+    };
+    const newHistory = [newRecord, ...history];
+    setHistory(newHistory);
+    saveRecord(newRecord, newHistory);
+    queueSync({ changed: [newRecord.id], deleted: [] });
+  };
+
   // --- Swipe Logic ---
   const touchStartRef = useRef(0);
   
@@ -303,305 +685,889 @@ const App = () => {
 
   const nextBrand = () => {
     if (isSmoking) return;
-    setCurrentBrandIndex((prev) => (prev + 1) % BRANDS.length);
-    setProgress(0);
+    setCurrentBrandIndex((prev) => (prev + 1) % brands.length);
+    updateSession(null);
   };
 
   const prevBrand = () => {
     if (isSmoking) return;
-    setCurrentBrandIndex((prev) => (prev - 1 + BRANDS.length) % BRANDS.length);
-    setProgress(0);
+    setCurrentBrandIndex((prev) => (prev - 1 + brands.length) % brands.length);
+    updateSession(null);
   };
 
   const totalSaved = history.reduce((acc, curr) => acc + curr.savedAmount, 0);
-  const currentBrand = BRANDS[currentBrandIndex];
+  const packsSaved = packsNotBought(history, brands, purchases);
+  const syncLabel = (status: SyncStatus) => t(`sync.status.${status}`);
+  const net = netSummary(history);
+  const currentGoal = activeGoals(goals)[0];
+  const currentBrand = brands[currentBrandIndex];
+  // The summary and share card show the session that just ended, even after picking another brand
+  const summaryBrand = (lastRecord && recordBrand(brands, lastRecord)) ?? currentBrand;
+  const virtualHistory = history.filter((r) => r.kind === "virtual");
+  const todayPlan = plan ? planProgress(plan, history) : null;
+  const nextReminder = getNextReminder(settings, activity, reminderState, Date.now());
+  const breathingPattern = settings.breathingPattern !== "off" ? getBreathingPattern(settings.breathingPattern) : undefined;
+  const breathState = isSmoking && !paused && breathingPattern ? getBreathState(breathingPattern, sessionElapsed) : null;
+  const recoveryFrom = recoveryStart(history, settings);
+  const recovery = recoveryFrom !== null ? recoveryProgress(recoveryFrom, now) : null;
+  // Milestones passed since the session before the one just finished
+  const previousSession = lastRecord ? history.find((r) => r.kind === "virtual" && r.timestamp < lastRecord.timestamp) : undefined;
+  const newMilestones = recoveryFrom !== null && lastRecord && previousSession
+    ? milestonesReachedBetween(recoveryFrom, previousSession.timestamp, lastRecord.timestamp)
+    : [];
+  const focusMs = focusSince(breaks, now);
+  const focusBeforeLastBreak = lastBreak ? focusSince(breaks.filter((b) => b.id !== lastBreak.id), lastBreak.timestamp) : null;
+
+  // --- Sound & Haptics ---
+  // Crackle while lit; heated sticks don't burn, so they stay quiet
+  const crackleRef = useRef<Crackle | null>(null);
+  const crackling = session?.status === "lit" && stickTypeOf(currentBrand) !== "heated" && soundEnabled(settings, "crackle", now);
+
+  useEffect(() => {
+    if (!crackling) return;
+    const crackle = startCrackle(settings.soundVolume);
+    crackleRef.current = crackle;
+    return () => {
+      crackle?.stop();
+      crackleRef.current = null;
+    };
+  }, [crackling, settings.soundVolume]);
+
+  useEffect(() => {
+    crackleRef.current?.setDrawing(isPuffing);
+  }, [isPuffing]);
+
+  // Each breathing cue gets a tap, and the exhale a breath out
+  const breathCue = breathState ? `${breathState.cycles}:${breathState.phase}` : null;
+  useEffect(() => {
+    if (!breathState) return;
+    vibrate(settings, "breath");
+    if (breathState.phase === "exhale" && soundEnabled(settings, "exhale", Date.now())) {
+      playExhale(settings.soundVolume, breathState.secondsLeft * 1000);
+    }
+  }, [breathCue]);
+
+  // --- Accessibility ---
+  useFocusTrap(settingsDialogRef, showSettings);
+
+  // Announce the burn in quarters rather than every tick
+  const burnQuarter = isSmoking ? Math.floor(progress / 25) : 0;
+  useEffect(() => {
+    if (burnQuarter > 0 && burnQuarter < 4) setAnnouncement(t("a11y.burned", { percent: burnQuarter * 25 }));
+  }, [burnQuarter]);
+
+  useEffect(() => {
+    if (session?.status === "lit") setAnnouncement(t("a11y.lit", { brand: currentBrand.name }));
+    else if (session?.status === "paused") setAnnouncement(t("main.paused"));
+  }, [session?.status]);
+
+  useEffect(() => {
+    if (!showSummary || !lastRecord) return;
+    const result = lastRecord.burned !== undefined ? t("summary.partial", { percent: Math.round(lastRecord.burned * 100) }) : t("summary.success");
+    setAnnouncement(`${result} ${t("summary.saved", { amount: i18n.money(lastRecord.savedAmount) })}`);
+  }, [showSummary, lastRecord?.id]);
+
+  const modalOpen = showShare || showBrandEditor || showPurchases || showCravingPrompt || showSettings || showHistory || showStats ||
+    showPlan || showRecovery || showGoals || showBreakLog;
+
+  const closeTopModal = () => {
+    if (showShare) setShowShare(false);
+    else if (showBrandEditor) setShowBrandEditor(false);
+    else if (showPurchases) setShowPurchases(false);
+    else if (showCravingPrompt) setShowCravingPrompt(false);
+    else if (showSettings) setShowSettings(false);
+    else if (showHistory) setShowHistory(false);
+    else if (showStats) setShowStats(false);
+    else if (showPlan) setShowPlan(false);
+    else if (showRecovery) setShowRecovery(false);
+    else if (showGoals) setShowGoals(false);
+    else if (showBreakLog) setShowBreakLog(false);
+  };
+
+  // Keyboard: arrows pick a brand, Space or Enter lights up or puts out, Esc closes the top modal
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape") {
+      closeTopModal();
+      return;
+    }
+    // Controls with focus handle their own keys
+    if (e.repeat || modalOpen || (e.target as HTMLElement).closest("button, a, input, select, textarea")) return;
+
+    if (breakMode) {
+      if (e.key !== " " && e.key !== "Enter") return;
+      e.preventDefault();
+      if (breakStartedAt === null) startBreak();
+      else endBreak();
+      return;
+    }
+    if (e.key === "ArrowLeft") prevBrand();
+    else if (e.key === "ArrowRight") nextBrand();
+    else if (e.key === " " || e.key === "Enter") {
+      // Space puffs in hold-to-puff mode
+      if (e.key === " " && isSmoking && session.mode === "puff") return;
+      e.preventDefault();
+      if (isSmoking) stopSmoking();
+      else requestSmoke();
+    }
+  };
+  const keyHandlerRef = useRef(handleKeyDown);
+  keyHandlerRef.current = handleKeyDown;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
 
   return (
-    <div className="min-h-screen bg-neutral-900 text-white overflow-hidden font-sans select-none relative flex flex-col">
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-neutral-900 text-white overflow-hidden font-sans select-none relative flex flex-col">
+        <div aria-live="polite" className="sr-only">{announcement}</div>
       
-      {/* --- Header --- */}
-      <header className="absolute top-0 left-0 right-0 p-6 flex justify-between items-start z-30">
-        <button onClick={() => setShowHistory(true)} className="p-3 bg-neutral-800/80 rounded-full backdrop-blur-md border border-white/10 active:scale-95 transition">
-          <History className="w-5 h-5 text-gray-300" />
-        </button>
-        <div className="flex flex-col items-center pt-2">
-          <span className="text-[10px] text-gray-500 uppercase tracking-[0.2em]">Total Saved</span>
-          <span className="text-2xl font-bold text-emerald-400 font-mono shadow-emerald-900/50 drop-shadow-lg">
-             ¥{totalSaved.toFixed(2)}
-          </span>
-        </div>
-        <button onClick={() => setShowSettings(true)} className="p-3 bg-neutral-800/80 rounded-full backdrop-blur-md border border-white/10 active:scale-95 transition">
-          <Settings className="w-5 h-5 text-gray-300" />
-        </button>
-      </header>
-
-      {/* --- Main Content Area --- */}
-      <main 
-        className="flex-1 relative w-full flex flex-col items-center justify-center"
-        onTouchStart={handleTouchStart}
-        onTouchEnd={handleTouchEnd}
-      >
-        
-        {/* Brand Info */}
-        <div className="absolute top-28 text-center z-20 pointer-events-none flex flex-col items-center w-full px-4">
-          <h2 className="text-4xl font-bold tracking-tighter text-white drop-shadow-lg">
-            {currentBrand.name}
-          </h2>
-          {/* Removed subName render here */}
-          
-          {/* Price Tag */}
-          <p className="mt-3 text-yellow-400 font-mono font-bold text-base bg-neutral-900/80 px-4 py-1.5 rounded-full inline-block backdrop-blur-md border border-yellow-400/20 shadow-lg shadow-black/50">
-             ¥{currentBrand.pricePerStick.toFixed(1)} / 支
-          </p>
-        </div>
-
-        {/* Navigation Arrows */}
-        {!isSmoking && (
-          <>
-            <button onClick={prevBrand} className="absolute left-4 top-1/2 p-4 opacity-40 hover:opacity-100 hover:bg-white/5 rounded-full transition z-30">
-              <ChevronLeft size={32} />
+        {/* --- Header --- */}
+        <header className="absolute top-0 left-0 right-0 p-6 flex justify-between items-start z-30">
+          <div className="flex flex-col gap-3">
+            <button onClick={() => breakMode ? setShowBreakLog(true) : setShowHistory(true)} aria-label={breakMode ? t("break.log") : t("history.title")} className="p-3 bg-neutral-800/80 rounded-full backdrop-blur-md border border-white/10 active:scale-95 transition">
+              <History className="w-5 h-5 text-gray-300" />
             </button>
-            <button onClick={nextBrand} className="absolute right-4 top-1/2 p-4 opacity-40 hover:opacity-100 hover:bg-white/5 rounded-full transition z-30">
-              <ChevronRight size={32} />
+            <button onClick={() => breakMode ? setShowBreakLog(true) : setShowStats(true)} aria-label={breakMode ? t("break.log") : t("stats.title")} className="p-3 bg-neutral-800/80 rounded-full backdrop-blur-md border border-white/10 active:scale-95 transition">
+              <BarChart3 className="w-5 h-5 text-gray-300" />
             </button>
-          </>
-        )}
-
-        {/* 3D Cigarette Render */}
-        <Cigarette3D 
-           brand={currentBrand} 
-           progress={progress} 
-           isSmoking={isSmoking} 
-        />
-
-      </main>
-
-      {/* --- Footer Controls --- */}
-      <footer className="pb-16 px-6 flex justify-center z-30 relative items-center">
-        {showSummary ? (
-          <div className="flex flex-col items-center w-full max-w-xs animate-fade-in mb-8">
-             <div className="mb-6 bg-emerald-900/30 border border-emerald-500/30 p-4 rounded-xl text-center w-full backdrop-blur-md">
-                <p className="text-emerald-400 font-bold text-lg">Success!</p>
-                <p className="text-gray-300 text-sm mt-1">You saved ¥{currentBrand.pricePerStick.toFixed(2)}</p>
-                {aiMessage && (
-                  <div className="mt-3 pt-3 border-t border-white/10">
-                    <p className="text-white/90 italic text-sm">"{aiMessage}"</p>
-                  </div>
+          </div>
+          {breakMode ? (
+            <div className="flex flex-col items-center pt-2">
+              <span className="text-[10px] text-gray-500 uppercase tracking-[0.2em]">{t("break.focused")}</span>
+              <span className="text-2xl font-bold text-sky-400 font-mono drop-shadow-lg">
+                 {focusMs === null ? "—" : i18n.duration(focusMs)}
+              </span>
+              <span className="mt-1 text-[10px] font-mono text-gray-500">{t("break.today", { n: breakStats(breaks, now).today })}</span>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center pt-2">
+              <button onClick={() => setShowGoals(true)} className="flex flex-col items-center active:scale-95 transition">
+                <span className="text-[10px] text-gray-500 uppercase tracking-[0.2em]">{t("header.totalSaved")}</span>
+                <span className="text-2xl font-bold text-emerald-400 font-mono shadow-emerald-900/50 drop-shadow-lg">
+                   {i18n.money(totalSaved)}
+                </span>
+                {packsSaved >= 0.1 && (
+                  <span className="mt-1 flex items-center gap-1 text-[10px] font-mono text-yellow-400/80">
+                    <Receipt className="w-3 h-3" />
+                    {t("header.packsNotBought", { n: i18n.number(packsSaved, 1) })}
+                  </span>
                 )}
-             </div>
-             <button 
-                onClick={resetCigarette}
-                className="flex items-center justify-center gap-2 w-full bg-white text-black font-bold py-4 rounded-xl active:scale-95 transition-transform shadow-lg shadow-white/10"
-             >
-                <RotateCcw className="w-5 h-5" />
-                再来一根 (New One)
-             </button>
+                {currentGoal && (
+                  <span className="mt-1 flex items-center gap-1 text-[10px] font-mono text-emerald-300/80">
+                    <PiggyBank className="w-3 h-3" />
+                    {t("goals.progress", { name: currentGoal.name, percent: Math.floor((currentGoal.saved / currentGoal.target) * 100) })}
+                  </span>
+                )}
+              </button>
+              {net.substitutionRatio !== null && net.spent > 0 && (
+                <div className="mt-1 flex flex-col items-center text-[10px] font-mono text-gray-500">
+                  <span><span className="text-red-400">{t("header.spent", { amount: i18n.money(-net.spent, true) })}</span> · {t("header.net")} <span className={net.net >= 0 ? "text-emerald-400" : "text-red-400"}>{i18n.money(net.net)}</span></span>
+                  <span>{t("header.swapped", { percent: Math.round(net.substitutionRatio * 100) })}</span>
+                </div>
+              )}
+              <button onClick={() => setShowRecovery(true)} className="mt-1 flex items-center gap-1 text-[10px] font-mono text-rose-300 active:scale-95 transition">
+                <HeartPulse className="w-3 h-3" />
+                {!recovery
+                  ? t("recovery.title")
+                  : recovery.next
+                    ? t("recovery.header", { elapsed: i18n.duration(recovery.elapsedMs), milestone: t(`recovery.at.${recovery.next.id}`), countdown: i18n.duration(recovery.nextInMs) })
+                    : i18n.duration(recovery.elapsedMs)}
+              </button>
+            </div>
+          )}
+          <div className="flex flex-col gap-3">
+            <button onClick={() => setShowSettings(true)} aria-label={t("settings.title")} className="p-3 bg-neutral-800/80 rounded-full backdrop-blur-md border border-white/10 active:scale-95 transition">
+              <Settings className="w-5 h-5 text-gray-300" />
+            </button>
+            {!breakMode && (
+              <button onClick={() => setShowPlan(true)} aria-label={t("plan.title")} className="p-3 bg-neutral-800/80 rounded-full backdrop-blur-md border border-white/10 active:scale-95 transition">
+                <Target className="w-5 h-5 text-gray-300" />
+              </button>
+            )}
+            {settings.syncEndpoint && (
+              <button onClick={runSync} disabled={syncStatus === "syncing"} aria-label={syncLabel(syncStatus)} title={syncLabel(syncStatus)} className="p-3 bg-neutral-800/80 rounded-full backdrop-blur-md border border-white/10 active:scale-95 transition">
+                {SYNC_ICONS[syncStatus]}
+              </button>
+            )}
           </div>
-        ) : isSmoking ? (
-          <div className="flex flex-col items-center gap-4 w-full max-w-xs">
-             <button 
-                onClick={stopSmoking}
-                className="bg-neutral-800/80 backdrop-blur-md border border-white/10 text-neutral-300 px-8 py-4 rounded-xl font-medium active:scale-95 transition-transform w-full shadow-lg"
-             >
-                熄灭 (Put Out)
-             </button>
+        </header>
+
+        {/* --- Reminder Banner --- */}
+        {reminderDue && !isSmoking && breakStartedAt === null && (
+          <div className="absolute top-24 left-6 right-6 z-40 p-4 bg-neutral-800/95 backdrop-blur-md rounded-xl border border-orange-500/30 shadow-lg animate-fade-in">
+            <div className="flex justify-between items-start">
+              <p className="font-bold text-orange-300">{breakMode ? t("break.reminderTitle") : t("reminder.title")}</p>
+              <button onClick={() => setReminderDue(false)} aria-label={t("common.close")} className="text-gray-500"><X className="w-4 h-4" /></button>
+            </div>
+            <div className="grid grid-cols-3 gap-2 mt-3">
+              <button onClick={breakMode ? startBreak : requestSmoke} className="py-2 bg-orange-600 rounded-lg text-sm font-bold">{breakMode ? t("break.start") : t("main.light")}</button>
+              {[10, 30].map((m) => (
+                <button key={m} onClick={() => snooze(m)} className="py-2 bg-neutral-700 rounded-lg text-sm">{t("reminder.snooze", { duration: i18n.duration(m * 60000) })}</button>
+              ))}
+            </div>
           </div>
+        )}
+
+        {breakMode ? (
+          <>
+            {/* --- Break Mode --- */}
+            <main className="flex-1 relative w-full flex flex-col items-center justify-center">
+              {/* Break Type */}
+              <div className="absolute top-28 z-20 grid grid-cols-4 gap-2 w-full max-w-xs px-4">
+                {BREAK_TYPES.map((type) => {
+                  const Icon = BREAK_ICONS[type];
+                  return (
+                    <button
+                      key={type}
+                      disabled={breakStartedAt !== null}
+                      onClick={() => updateSettings({ ...settings, breakType: type })}
+                      className={`flex flex-col items-center gap-1 py-2 rounded-lg text-xs font-medium transition disabled:opacity-60 ${settings.breakType === type ? "bg-sky-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {t(`break.type.${type}`)}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <BreakTimer
+                type={settings.breakType}
+                elapsedMs={breakStartedAt !== null ? breakElapsed : 0}
+                targetMs={settings.breakMinutes * 60000}
+                active={breakStartedAt !== null}
+              />
+            </main>
+
+            <footer className="pb-16 px-6 flex justify-center z-30 relative items-center">
+              {lastBreak ? (
+                <div className="flex flex-col items-center w-full max-w-xs animate-fade-in mb-8">
+                  <div className="mb-6 bg-sky-900/30 border border-sky-500/30 p-4 rounded-xl text-center w-full backdrop-blur-md">
+                    <p className="text-sky-300 font-bold text-lg">{t("break.done")}</p>
+                    <p className="text-gray-300 text-sm mt-1">{t("break.took", { type: t(`break.type.${lastBreak.type as BreakType}`), duration: i18n.duration(lastBreak.durationMs, "s") })}</p>
+                    {focusBeforeLastBreak !== null && (
+                      <p className="text-gray-500 text-xs mt-1">{t("break.focusBefore", { duration: i18n.duration(focusBeforeLastBreak) })}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => setLastBreak(null)}
+                    className="flex items-center justify-center gap-2 w-full bg-white text-black font-bold py-4 rounded-xl active:scale-95 transition-transform shadow-lg shadow-white/10"
+                  >
+                    <Briefcase className="w-5 h-5" />
+                    {t("break.backToWork")}
+                  </button>
+                </div>
+              ) : breakStartedAt !== null ? (
+                <button
+                  onClick={endBreak}
+                  className="bg-neutral-800/80 backdrop-blur-md border border-white/10 text-neutral-300 px-8 py-4 rounded-xl font-medium active:scale-95 transition-transform w-full max-w-xs shadow-lg"
+                >
+                  {t("break.end")}
+                </button>
+              ) : (
+                <button
+                  onClick={startBreak}
+                  className="w-full max-w-xs bg-gradient-to-b from-sky-500 to-sky-600 text-white text-lg font-bold py-5 rounded-2xl shadow-xl shadow-sky-900/20 active:scale-95 transition-all ring-1 ring-white/20"
+                >
+                  <div className="flex items-center justify-center gap-3">
+                    <Coffee className="w-6 h-6" />
+                    {t("break.start")}
+                  </div>
+                </button>
+              )}
+            </footer>
+          </>
         ) : (
-          <button
-            onClick={startSmoking}
-            className="group relative w-full max-w-xs bg-gradient-to-b from-orange-600 to-orange-700 text-white text-lg font-bold py-5 rounded-2xl shadow-xl shadow-orange-900/20 active:scale-95 transition-all overflow-hidden ring-1 ring-white/20"
+          <>
+          {/* --- Main Content Area --- */}
+          <main 
+            className="flex-1 relative w-full flex flex-col items-center justify-center"
+            onTouchStart={handleTouchStart}
+            onTouchEnd={handleTouchEnd}
+            onPointerDown={beginPuff}
+            onPointerUp={endPuff}
+            onPointerLeave={endPuff}
+            onPointerCancel={endPuff}
           >
-            <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] opacity-10"></div>
-            <div className="absolute top-0 left-0 w-full h-1/2 bg-gradient-to-b from-white/10 to-transparent"></div>
-            <div className="flex items-center justify-center gap-3 relative z-10">
-              <Flame className="w-6 h-6 fill-orange-200 text-white animate-pulse" />
-              来一根
+        
+            {/* Brand Info */}
+            <div className="absolute top-28 text-center z-20 pointer-events-none flex flex-col items-center w-full px-4">
+              <h2 className="text-4xl font-bold tracking-tighter text-white drop-shadow-lg">
+                {currentBrand.name}
+              </h2>
+              {/* Removed subName render here */}
+          
+              {/* Price Tag */}
+              <button
+                onClick={() => setShowPurchases(true)}
+                disabled={isSmoking}
+                aria-label={t("purchases.open", { brand: currentBrand.name })}
+                className="pointer-events-auto mt-3 text-yellow-400 font-mono font-bold text-base bg-neutral-900/80 px-4 py-1.5 rounded-full inline-block backdrop-blur-md border border-yellow-400/20 shadow-lg shadow-black/50 active:scale-95 transition"
+              >
+                 {t("brands.perStickPrice", { price: i18n.money(priceOf(currentBrand)) })}
+              </button>
+
+              {/* Quit Plan Allowance */}
+              {todayPlan && (
+                <p className={`mt-2 text-xs font-medium px-3 py-1 rounded-full bg-neutral-900/80 border ${todayPlan.remaining < 0 ? "text-red-400 border-red-400/20" : "text-emerald-400 border-emerald-400/20"}`}>
+                  {todayPlan.remaining < 0
+                    ? t("main.planOver", { n: -todayPlan.remaining })
+                    : t("main.planLeft", { n: todayPlan.remaining })} · {t("plan.swapped", { n: todayPlan.virtualToday })}
+                </p>
+              )}
             </div>
-          </button>
+
+            {/* Navigation Arrows */}
+            {!isSmoking && (
+              <>
+                <button onClick={prevBrand} aria-label={t("a11y.prevBrand")} className="absolute left-4 top-1/2 p-4 opacity-40 hover:opacity-100 hover:bg-white/5 rounded-full transition z-30">
+                  <ChevronLeft size={32} />
+                </button>
+                <button onClick={nextBrand} aria-label={t("a11y.nextBrand")} className="absolute right-4 top-1/2 p-4 opacity-40 hover:opacity-100 hover:bg-white/5 rounded-full transition z-30">
+                  <ChevronRight size={32} />
+                </button>
+              </>
+            )}
+
+            {/* 3D Cigarette Render */}
+            <div
+              className="contents"
+              role="progressbar"
+              aria-label={t("a11y.burnProgress", { brand: currentBrand.name })}
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(progress)}
+            >
+              <Cigarette3D 
+                 brand={currentBrand} 
+                 progress={progress} 
+                 isSmoking={isSmoking} 
+                 paused={paused}
+                 isPuffing={isPuffing}
+                 exhaling={!breathState || breathState.phase === "exhale"}
+              />
+            </div>
+
+            {/* Breathing Coach */}
+            {breathState && <BreathingCoach state={breathState} />}
+
+          </main>
+
+          {/* --- Footer Controls --- */}
+          <footer className="pb-16 px-6 flex justify-center z-30 relative items-center">
+            {showSummary ? (
+              <div className="flex flex-col items-center w-full max-w-xs animate-fade-in mb-8">
+                 <div className="mb-6 bg-emerald-900/30 border border-emerald-500/30 p-4 rounded-xl text-center w-full backdrop-blur-md">
+                    <p className="text-emerald-400 font-bold text-lg">
+                      {lastRecord?.burned !== undefined ? t("summary.partial", { percent: Math.round(lastRecord.burned * 100) }) : t("summary.success")}
+                    </p>
+                    <p className="text-gray-300 text-sm mt-1">{t("summary.saved", { amount: i18n.money(lastRecord?.savedAmount ?? priceOf(summaryBrand)) })}</p>
+                    {lastRecord?.breathCycles !== undefined && (
+                      <p className="text-sky-300 text-xs mt-1">{t("summary.breaths", { n: lastRecord.breathCycles })}</p>
+                    )}
+                    {reachedGoals.map((g) => (
+                      <p key={g.id} className="text-yellow-300 font-bold text-sm mt-2 flex items-center justify-center gap-1">
+                        <PartyPopper className="w-4 h-4" /> {t("goals.reached", { name: g.name })}
+                      </p>
+                    ))}
+                    {newMilestones.length > 0 ? (
+                      <p className="text-rose-300 text-xs mt-1">{t("recovery.reached", { milestone: t(`recovery.body.${newMilestones[newMilestones.length - 1].id}`) })}</p>
+                    ) : recovery?.next && (
+                      <p className="text-rose-300 text-xs mt-1">{t("recovery.next", { milestone: t(`recovery.body.${recovery.next.id}`), countdown: i18n.duration(recovery.nextInMs) })}</p>
+                    )}
+                    {lastRecord?.puffCount !== undefined && (
+                      <p className="text-gray-500 text-xs mt-1 font-mono">
+                        {t("summary.puffs", { n: lastRecord.puffCount, inhaled: i18n.duration(lastRecord.inhaleMs ?? 0, "s"), total: i18n.duration(lastRecord.durationMs ?? 0, "s") })}
+                      </p>
+                    )}
+                    {lastRecord?.cravingBefore !== undefined && (
+                      <div className="mt-3 pt-3 border-t border-white/10">
+                        <p className="text-gray-400 text-xs mb-2">
+                          {lastRecord.cravingAfter === undefined
+                            ? t("summary.cravingAsk", { n: lastRecord.cravingBefore })
+                            : t("summary.cravingChange", { before: lastRecord.cravingBefore, after: lastRecord.cravingAfter })}
+                        </p>
+                        <CravingScale value={lastRecord.cravingAfter ?? null} onChange={rateCravingAfter} />
+                      </div>
+                    )}
+                    {aiMessage && (
+                      <div className="mt-3 pt-3 border-t border-white/10">
+                        <p className="text-white/90 italic text-sm">"{aiMessage}"</p>
+                      </div>
+                    )}
+                 </div>
+                 <div className="flex gap-3 w-full">
+                   <button
+                      onClick={() => setShowShare(true)}
+                      disabled={!lastRecord}
+                      className="flex items-center justify-center gap-2 bg-neutral-800/80 backdrop-blur-md border border-white/10 text-white font-bold px-5 py-4 rounded-xl active:scale-95 transition-transform shadow-lg"
+                   >
+                      <Share2 className="w-5 h-5" />
+                      {t("share.action")}
+                   </button>
+                   <button 
+                      onClick={resetCigarette}
+                      className="flex-1 flex items-center justify-center gap-2 bg-white text-black font-bold py-4 rounded-xl active:scale-95 transition-transform shadow-lg shadow-white/10"
+                   >
+                      <RotateCcw className="w-5 h-5" />
+                      {t("summary.another")}
+                   </button>
+                 </div>
+              </div>
+            ) : isSmoking ? (
+              <div className="flex flex-col items-center gap-4 w-full max-w-xs">
+                 {session.mode === "puff" && (
+                   <p className={`text-sm transition-colors ${isPuffing ? "text-orange-300" : "text-gray-500"}`}>
+                     {isPuffing ? t("main.inhaling") : t("main.holdToPuff")} · {session.puffCount}
+                   </p>
+                 )}
+                 {paused && <p className="text-sm text-gray-500">{t("main.paused")}</p>}
+                 <div className="flex gap-3 w-full">
+                   <button
+                      onClick={togglePause}
+                      className="flex items-center justify-center gap-2 bg-neutral-800/80 backdrop-blur-md border border-white/10 text-neutral-300 px-5 py-4 rounded-xl font-medium active:scale-95 transition-transform shadow-lg"
+                   >
+                      {paused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                      {paused ? t("main.resume") : t("main.pause")}
+                   </button>
+                   <button 
+                      onClick={stopSmoking}
+                      className="bg-neutral-800/80 backdrop-blur-md border border-white/10 text-neutral-300 px-8 py-4 rounded-xl font-medium active:scale-95 transition-transform flex-1 shadow-lg"
+                   >
+                      {t("main.putOut")}
+                   </button>
+                 </div>
+              </div>
+            ) : (
+              <div className="flex flex-col items-center gap-3 w-full max-w-xs">
+                <button
+                  onClick={requestSmoke}
+                  className="group relative w-full max-w-xs bg-gradient-to-b from-orange-600 to-orange-700 text-white text-lg font-bold py-5 rounded-2xl shadow-xl shadow-orange-900/20 active:scale-95 transition-all overflow-hidden ring-1 ring-white/20"
+                >
+                  <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] opacity-10"></div>
+                  <div className="absolute top-0 left-0 w-full h-1/2 bg-gradient-to-b from-white/10 to-transparent"></div>
+                  <div className="flex items-center justify-center gap-3 relative z-10">
+                    <Flame className="w-6 h-6 fill-orange-200 text-white animate-pulse" />
+                    {t("main.light")}
+                  </div>
+                </button>
+                <button
+                  onClick={logRealCigarette}
+                  className="flex items-center gap-2 text-xs text-gray-500 hover:text-red-400 py-1 transition"
+                >
+                  <Cigarette className="w-3.5 h-3.5" />
+                  {t("main.logReal")}
+                </button>
+              </div>
+            )}
+          </footer>
+          </>
+        )}
+
+        {/* --- Break Log --- */}
+        {showBreakLog && (
+          <BreakLog breaks={breaks} onClose={() => setShowBreakLog(false)} />
+        )}
+
+        {/* --- History Modal --- */}
+        {showHistory && (
+          <HistoryModal history={history} brands={brands} priceOf={priceOf} onChange={editHistory} onClose={() => setShowHistory(false)} />
         )}
-      </footer>
-
-      {/* --- History Modal --- */}
-      {showHistory && (
-        <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
-          <div className="flex justify-between items-center mb-8">
-            <h2 className="text-2xl font-bold flex items-center gap-2"><History /> Records</h2>
-            <button onClick={() => setShowHistory(false)} className="p-2 bg-neutral-800 rounded-full"><X /></button>
-          </div>
-          <div className="flex-1 overflow-y-auto space-y-3 scrollbar-hide">
-             {history.length === 0 && <p className="text-neutral-500 text-center mt-10">Empty ashtray.</p>}
-             {history.map((r) => (
-               <div key={r.id} className="flex justify-between p-4 bg-neutral-900 rounded-lg border border-neutral-800">
-                 <div><div className="text-white font-medium">{r.brandName}</div><div className="text-xs text-neutral-500">{r.date}</div></div>
-                 <div className="text-emerald-400 font-mono">+¥{r.savedAmount.toFixed(2)}</div>
-               </div>
-             ))}
-          </div>
-        </div>
-      )}
       
-       {/* --- Settings Modal --- */}
-       {showSettings && (
-        <div className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
-          <div className="flex justify-between items-center mb-8">
-            <h2 className="text-2xl font-bold flex items-center gap-2"><Settings /> Settings</h2>
-            <button onClick={() => setShowSettings(false)} className="p-2 bg-neutral-800 rounded-full"><X /></button>
-          </div>
+         {/* --- Settings Modal --- */}
+         {showSettings && (
+          <div ref={settingsDialogRef} role="dialog" aria-modal="true" aria-label={t("settings.title")} className="absolute inset-0 z-50 bg-black/95 backdrop-blur-xl p-6 animate-fade-in flex flex-col">
+            <div className="flex justify-between items-center mb-8">
+              <h2 className="text-2xl font-bold flex items-center gap-2"><Settings /> {t("settings.title")}</h2>
+              <button onClick={() => setShowSettings(false)} aria-label={t("common.close")} className="p-2 bg-neutral-800 rounded-full"><X /></button>
+            </div>
           
-          <div className="space-y-6">
+            <div className="flex-1 overflow-y-auto space-y-6 scrollbar-hide">
             
-            {/* Active Hours */}
-            <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
-              <div className="flex items-center gap-2 mb-4 text-orange-400">
-                <Clock className="w-5 h-5" />
-                <span className="font-bold">Active Hours</span>
+              {/* Language & Currency */}
+              <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+                <div className="flex items-center gap-2 mb-4 text-indigo-400">
+                  <Languages className="w-5 h-5" />
+                  <span className="font-bold">{t("settings.language")}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <select
+                    className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-indigo-500 focus:outline-none appearance-none"
+                    value={settings.locale}
+                    onChange={(e) => updateSettings({...settings, locale: e.target.value as Locale | "auto"})}
+                  >
+                    <option value="auto">{t("settings.languageAuto")}</option>
+                    {LOCALES.map((l) => (
+                      <option key={l.id} value={l.id}>{l.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-indigo-500 focus:outline-none appearance-none"
+                    value={settings.currency}
+                    onChange={(e) => updateSettings({...settings, currency: e.target.value})}
+                  >
+                    {CURRENCIES.map((c) => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-gray-500 text-xs mt-3">{t("settings.currencyHint")}</p>
               </div>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="text-xs text-gray-500 mb-1 block">Start Time</label>
-                  <input 
-                    type="time" 
-                    className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-orange-500 focus:outline-none"
-                    value={settings.startTime}
-                    onChange={(e) => updateSettings({...settings, startTime: e.target.value})}
-                  />
+
+              {/* App Mode */}
+              <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+                <div className="flex items-center gap-2 mb-4 text-sky-400">
+                  <Coffee className="w-5 h-5" />
+                  <span className="font-bold">{t("settings.appMode")}</span>
                 </div>
-                <div>
-                  <label className="text-xs text-gray-500 mb-1 block">End Time</label>
-                  <input 
-                    type="time" 
-                    className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-orange-500 focus:outline-none"
-                    value={settings.endTime}
-                    onChange={(e) => updateSettings({...settings, endTime: e.target.value})}
-                  />
+                <div className="flex gap-2">
+                  {(["smoke", "break"] as AppMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      disabled={isSmoking || breakStartedAt !== null}
+                      onClick={() => updateSettings({ ...settings, appMode: mode })}
+                      className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${settings.appMode === mode ? "bg-orange-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+                    >
+                      {t(`settings.appMode.${mode}`)}
+                    </button>
+                  ))}
                 </div>
+                {breakMode && (
+                  <div className="mt-4">
+                    <label className="text-xs text-gray-500 mb-1 block">{t("break.length")}</label>
+                    <div className="flex gap-2">
+                      {BREAK_LENGTHS.map((m) => (
+                        <button
+                          key={m}
+                          onClick={() => updateSettings({ ...settings, breakMinutes: m })}
+                          className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${settings.breakMinutes === m ? "bg-sky-600 text-white" : "bg-neutral-800 text-gray-400"}`}
+                        >
+                          {i18n.duration(m * 60000)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <p className="text-gray-500 text-xs mt-3">{t("settings.appModeHint")}</p>
               </div>
-            </div>
 
-            {/* Interval */}
-            <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
-              <div className="flex items-center gap-2 mb-4 text-blue-400">
-                <History className="w-5 h-5" />
-                <span className="font-bold">Reminder Interval</span>
+              {/* Reminders */}
+              <ReminderSettings
+                settings={settings}
+                onChange={updateSettings}
+                nextReminder={nextReminder}
+                snoozeUntil={reminderState.snoozeUntil}
+                onSnooze={snooze}
+              />
+
+              {/* Smoking Mode */}
+              <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+                <div className="flex items-center gap-2 mb-4 text-red-400">
+                  <Flame className="w-5 h-5" />
+                  <span className="font-bold">{t("settings.smokingMode")}</span>
+                </div>
+                <select 
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-red-500 focus:outline-none appearance-none"
+                  value={settings.smokingMode}
+                  onChange={(e) => updateSettings({...settings, smokingMode: e.target.value as SmokingMode})}
+                >
+                  <option value="auto">{t("settings.modeAuto", { duration: i18n.duration(burnDuration(currentBrand), "s") })}</option>
+                  <option value="puff">{t("settings.modePuff")}</option>
+                </select>
               </div>
-              <select 
-                className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-blue-500 focus:outline-none appearance-none"
-                value={settings.intervalMinutes}
-                onChange={(e) => updateSettings({...settings, intervalMinutes: parseInt(e.target.value)})}
-              >
-                <option value={30}>Every 30 Minutes</option>
-                <option value={45}>Every 45 Minutes</option>
-                <option value={60}>Every 1 Hour</option>
-                <option value={90}>Every 1.5 Hours</option>
-                <option value={120}>Every 2 Hours</option>
-              </select>
-            </div>
 
-            {/* Notification Permission */}
-            <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2 text-emerald-400">
-                  <Bell className="w-5 h-5" />
-                  <span className="font-bold">Notifications</span>
+              {/* Breathing Coach */}
+              <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+                <div className="flex items-center gap-2 mb-4 text-sky-400">
+                  <Wind className="w-5 h-5" />
+                  <span className="font-bold">{t("settings.breathing")}</span>
                 </div>
-                <div className={`text-xs px-2 py-1 rounded ${settings.notificationsEnabled ? 'bg-emerald-900 text-emerald-400' : 'bg-red-900 text-red-400'}`}>
-                  {settings.notificationsEnabled ? 'On' : 'Off'}
+                <select 
+                  className="w-full bg-neutral-800 border border-neutral-700 rounded-lg p-3 text-white focus:border-sky-500 focus:outline-none appearance-none"
+                  value={settings.breathingPattern}
+                  onChange={(e) => updateSettings({...settings, breathingPattern: e.target.value as BreathingPatternId | "off"})}
+                >
+                  <option value="off">{t("common.off")}</option>
+                  {BREATHING_PATTERNS.map((p) => (
+                    <option key={p.id} value={p.id}>{t(`breath.pattern.${p.id}`)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Messages */}
+              <MessageSettings settings={settings} onChange={updateSettings} />
+
+              {/* Sound & Haptics */}
+              <FeedbackSettings settings={settings} onChange={updateSettings} />
+
+              {/* Craving Journal */}
+              <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-pink-400">
+                    <NotebookPen className="w-5 h-5" />
+                    <span className="font-bold">{t("settings.cravingJournal")}</span>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={settings.cravingPrompt}
+                    onChange={(e) => updateSettings({...settings, cravingPrompt: e.target.checked})}
+                  />
                 </div>
+                <p className="text-gray-500 text-sm mt-2">
+                  {t("settings.cravingJournalHint")}
+                </p>
               </div>
-              <p className="text-gray-500 text-sm mt-2 mb-4">
-                Get a system notification when it's time for a smoke break.
-              </p>
-              {!settings.notificationsEnabled && (
+
+              {/* Brands */}
+              <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+                <div className="flex items-center gap-2 mb-4 text-yellow-400">
+                  <Package className="w-5 h-5" />
+                  <span className="font-bold">{t("settings.brands")}</span>
+                </div>
+                <p className="text-gray-500 text-sm mb-4">
+                  {t("settings.brandsHint")}
+                </p>
                 <button 
-                  onClick={requestNotificationPermission}
+                  onClick={() => setShowBrandEditor(true)}
                   className="w-full py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition"
                 >
-                  Enable Notifications
+                  {t("settings.manageBrands")}
                 </button>
-              )}
-            </div>
+                <button
+                  onClick={() => setShowPurchases(true)}
+                  className="w-full mt-2 py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition"
+                >
+                  {t("settings.purchases")}
+                </button>
+              </div>
+
+              {/* Backup */}
+              <BackupPanel history={history} settings={settings} plan={plan} goals={goals} breaks={breaks} purchases={purchases} onImport={importHistory} />
+
+              {/* Sync */}
+              <SyncSettings
+                endpoint={settings.syncEndpoint}
+                status={syncStatus}
+                lastSyncAt={syncStateRef.current.lastSyncAt}
+                onEndpointChange={(syncEndpoint: string) => updateSettings({ ...settings, syncEndpoint })}
+                onSyncNow={runSync}
+              />
 
+              {/* Notification Permission */}
+              <div className="p-5 bg-neutral-900 rounded-xl border border-neutral-800">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2 text-emerald-400">
+                    <Bell className="w-5 h-5" />
+                    <span className="font-bold">{t("settings.notifications")}</span>
+                  </div>
+                  <div className={`text-xs px-2 py-1 rounded ${settings.notificationsEnabled ? 'bg-emerald-900 text-emerald-400' : 'bg-red-900 text-red-400'}`}>
+                    {settings.notificationsEnabled ? t("common.on") : t("common.off")}
+                  </div>
+                </div>
+                <p className="text-gray-500 text-sm mt-2 mb-4">
+                  {t("settings.notificationsHint")}
+                </p>
+                {!settings.notificationsEnabled && (
+                  <button 
+                    onClick={requestNotificationPermission}
+                    className="w-full py-3 bg-neutral-800 hover:bg-neutral-700 rounded-lg text-sm font-medium transition"
+                  >
+                    {t("settings.enableNotifications")}
+                  </button>
+                )}
+              </div>
+
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-    </div>
+        {/* --- Stats Dashboard --- */}
+        {showStats && (
+          <StatsDashboard history={virtualHistory} onClose={() => setShowStats(false)} />
+        )}
+
+        {/* --- Recovery Timeline --- */}
+        {showRecovery && (
+          <RecoveryTimeline
+            start={recoveryFrom}
+            lastCigaretteAt={settings.lastCigaretteAt}
+            now={now}
+            onSetLastCigarette={(timestamp) => updateSettings({ ...settings, lastCigaretteAt: timestamp })}
+            onClose={() => setShowRecovery(false)}
+          />
+        )}
+
+        {/* --- Savings Goals --- */}
+        {showGoals && (
+          <GoalsView
+            goals={goals}
+            history={history}
+            onChange={updateGoals}
+            onClose={() => setShowGoals(false)}
+          />
+        )}
+
+        {/* --- Share Card --- */}
+        {showShare && lastRecord && (
+          <ShareCard
+            data={{
+              brand: summaryBrand,
+              savedAmount: lastRecord.savedAmount,
+              totalSaved,
+              streak: computeStreaks(virtualHistory).current,
+              message: aiMessage,
+              timestamp: lastRecord.timestamp,
+            }}
+            onClose={() => setShowShare(false)}
+          />
+        )}
+
+        {/* --- Quit Plan --- */}
+        {showPlan && (
+          <QuitPlanView
+            plan={plan}
+            history={history}
+            onChange={updatePlan}
+            onLogReal={logRealCigarette}
+            onClose={() => setShowPlan(false)}
+          />
+        )}
+
+        {/* --- Craving Journal --- */}
+        {showCravingPrompt && (
+          <CravingPrompt
+            customTriggers={settings.customTriggers}
+            onAddTrigger={addCustomTrigger}
+            onSubmit={startSmoking}
+            onSkip={() => startSmoking()}
+            onCancel={() => setShowCravingPrompt(false)}
+          />
+        )}
+
+        {/* --- Pack Purchases --- */}
+        {showPurchases && (
+          <PurchaseLog
+            brands={brands}
+            purchases={purchases}
+            priceSource={settings.priceSource}
+            initialBrandId={currentBrand.id}
+            onChange={updatePurchases}
+            onPriceSourceChange={(priceSource: PriceSource) => updateSettings({ ...settings, priceSource })}
+            onClose={() => setShowPurchases(false)}
+          />
+        )}
+
+        {/* --- Brand Editor --- */}
+        {showBrandEditor && (
+          <BrandEditor
+            brands={brands}
+            onChange={updateBrands}
+            onRestore={restoreBrands}
+            onClose={() => setShowBrandEditor(false)}
+          />
+        )}
+
+      </div>
+    </I18nContext.Provider>
   );
 };
 
 // --- 3D Cigarette Component ---
 
-const Cigarette3D = ({ brand, progress, isSmoking }: { brand: Brand, progress: number, isSmoking: boolean }) => {
-  const TOBACCO_HEIGHT = 300; 
-  const FILTER_HEIGHT = 80;
+const ASH_BACKGROUND = "repeating-linear-gradient(45deg, #4b5563, #4b5563 2px, #9ca3af 2px, #9ca3af 4px)";
+
+const Cigarette3D = ({ brand, progress, isSmoking, paused = false, isPuffing = false, exhaling = true }: { brand: Brand, progress: number, isSmoking: boolean, paused?: boolean, isPuffing?: boolean, exhaling?: boolean }) => {
+  const spec = stickSpec(brand);
+  // Heated sticks warm through instead of burning down: no ember, no ash, no shrinking
+  const heated = spec.ashChunk === 0;
   
   // Calculate dynamic heights
-  const currentTobaccoHeight = TOBACCO_HEIGHT * (1 - progress / 100);
-  const ashHeight = Math.min(TOBACCO_HEIGHT * (progress / 100), 60);
+  const burned = heated ? 0 : spec.tobaccoHeight * (progress / 100);
+  const currentTobaccoHeight = spec.tobaccoHeight - burned;
+  // Ash builds up and breaks off whenever it reaches the stick type's chunk length
+  const droppedChunks = heated ? 0 : Math.floor(burned / spec.ashChunk);
+  const ashHeight = burned - droppedChunks * spec.ashChunk;
   
   // The point where smoke should emit is at the top of the current tobacco
   // Position from BOTTOM of the container
-  const burnPointBottom = FILTER_HEIGHT + currentTobaccoHeight;
+  const burnPointBottom = spec.filterHeight + currentTobaccoHeight;
+  // Where the last chunk of ash broke off
+  const droppedAtBottom = spec.filterHeight + spec.tobaccoHeight - droppedChunks * spec.ashChunk;
 
   return (
-    <div className="relative h-[450px] w-40 flex items-end justify-center perspective-1000">
+    <div className="relative w-40 flex items-end justify-center perspective-1000" style={{ height: `${spec.filterHeight + spec.tobaccoHeight + 70}px` }}>
       
-      {/* Smoke Emitter - Follows the burn point */}
-      {isSmoking && (
-         <div 
-           className="absolute left-0 w-full h-20 pointer-events-none z-30 flex justify-center"
-           style={{ 
-             bottom: `${burnPointBottom}px`, 
-             transition: 'bottom 0.1s linear'
-            }}
-         >
-           <SmokeParticles />
-         </div>
+      {/* Smoke - Follows the burn point and lingers after the stick is put out */}
+      <SmokeCanvas brand={brand} emitting={isSmoking && !paused} emitBottom={burnPointBottom} puffing={isPuffing} exhaling={exhaling} />
+
+      {/* Falling ash, re-keyed so each chunk that breaks off animates once */}
+      {isSmoking && droppedChunks > 0 && (
+        <div key={droppedChunks} className="absolute inset-x-0 flex justify-center pointer-events-none z-20" style={{ bottom: `${droppedAtBottom}px` }}>
+          <div className={`${spec.widthClass} rounded-sm animate-ash-fall`} style={{ height: `${spec.ashChunk}px`, background: ASH_BACKGROUND }}></div>
+        </div>
       )}
 
       {/* The Stick Wrapper */}
-      <div className={`relative flex flex-col-reverse items-center ${brand.widthClass} transition-all duration-300 shadow-2xl`}>
+      <div className={`relative flex flex-col-reverse items-center ${spec.widthClass} transition-all duration-300 shadow-2xl`}>
          
-         {/* 1. FILTER (Bottom, Fixed) */}
-         <div 
-            className="w-full relative shrink-0 rounded-b-md overflow-hidden"
-            style={{ height: `${FILTER_HEIGHT}px`, ...brand.filterStyle }}
-         >
-            {/* 3D Shading Overlay */}
-            <div className="absolute inset-0 bg-gradient-to-r from-black/40 via-transparent to-black/40 pointer-events-none"></div>
-            {brand.ringColor && <div className={`absolute top-2 w-full h-1 ${brand.ringColor} opacity-90`}></div>}
-         </div>
+         {/* 1. FILTER (Bottom, Fixed; cigars have none) */}
+         {spec.filterHeight > 0 && (
+           <div 
+              className="w-full relative shrink-0 rounded-b-md overflow-hidden"
+              style={{ height: `${spec.filterHeight}px`, ...brand.filterStyle }}
+           >
+              {/* 3D Shading Overlay */}
+              <div className="absolute inset-0 bg-gradient-to-r from-black/40 via-transparent to-black/40 pointer-events-none"></div>
+              {(brand.ringColor || brand.ringStyle) && <div className={`absolute top-2 w-full h-1 ${brand.ringColor ?? ""} opacity-90`} style={brand.ringStyle}></div>}
+           </div>
+         )}
 
          {/* 2. TOBACCO BODY (Shrinks) */}
          <div 
-            className={`w-full relative bg-gradient-to-r ${brand.bodyColor} transition-all duration-75 ease-linear overflow-hidden`}
-            style={{ height: `${currentTobaccoHeight}px` }}
+            className={`w-full relative bg-gradient-to-r ${brand.bodyColor} transition-all duration-75 ease-linear overflow-hidden ${spec.filterHeight > 0 ? "" : "rounded-b-xl"}`}
+            style={{ height: `${currentTobaccoHeight}px`, ...brand.bodyStyle }}
          >
             {/* 3D Shading Overlay */}
             <div className="absolute inset-0 bg-gradient-to-r from-black/20 via-transparent to-black/20 pointer-events-none"></div>
+
+            {/* Heat creeping down a heated stick */}
+            {heated && isSmoking && (
+              <div className="absolute top-0 w-full bg-gradient-to-b from-amber-950/80 to-transparent" style={{ height: `${progress}%` }}></div>
+            )}
+
+            {/* Cigar band */}
+            {spec.filterHeight === 0 && (brand.ringColor || brand.ringStyle) && (
+              <div className={`absolute bottom-10 w-full h-4 ${brand.ringColor ?? ""} opacity-90`} style={brand.ringStyle}></div>
+            )}
             
             {/* Logo */}
             <div className="absolute bottom-4 w-full text-center opacity-60 rotate-90">
-               <span className={`text-[10px] font-bold ${brand.textColor} tracking-widest whitespace-nowrap`}>
+               <span className={`text-[10px] font-bold ${brand.textColor} tracking-widest whitespace-nowrap`} style={brand.textStyle}>
                  {brand.name.toUpperCase()}
                </span>
             </div>
          </div>
 
          {/* 3. BURNING INTERFACE (EMBER) */}
-         {isSmoking && (
-            <div className="w-full h-1.5 bg-red-500 animate-pulse relative z-10 shadow-[0_0_15px_rgba(255,60,0,0.8)]">
-               <div className="absolute inset-0 bg-gradient-to-r from-red-900 via-orange-400 to-red-900"></div>
+         {isSmoking && !heated && (
+            <div className={`w-full relative z-10 transition-all duration-200 ${isPuffing
+                ? "h-2 bg-orange-400 shadow-[0_0_30px_rgba(255,140,0,1)]"
+                : paused
+                ? "h-1.5 bg-red-900 opacity-60"
+                : "h-1.5 bg-red-500 animate-pulse shadow-[0_0_15px_rgba(255,60,0,0.8)]"}`}>
+               <div className={`absolute inset-0 bg-gradient-to-r ${isPuffing ? "from-orange-700 via-yellow-200 to-orange-700" : "from-red-900 via-orange-400 to-red-900"}`}></div>
             </div>
          )}
 
-         {/* 4. ASH (Grows on top) */}
-         {isSmoking && progress > 0 && (
+         {/* 4. ASH (Grows on top until it breaks off) */}
+         {isSmoking && ashHeight > 0 && (
             <div 
               className="w-[98%] mx-auto bg-gray-300 relative overflow-hidden rounded-t-sm transition-all duration-75 ease-linear"
               style={{ 
                  height: `${ashHeight}px`,
-                 background: "repeating-linear-gradient(45deg, #4b5563, #4b5563 2px, #9ca3af 2px, #9ca3af 4px)"
+                 background: ASH_BACKGROUND
               }}
             >
                {/* Ash Texture & Gradient */}
@@ -618,25 +1584,5 @@ const Cigarette3D = ({ brand, progress, isSmoking }: { brand: Brand, progress: n
   );
 }
 
-const SmokeParticles = () => {
-  // Generate random particles
-  return (
-    <div className="relative w-0 h-full overflow-visible">
-      {[...Array(12)].map((_, i) => (
-         <div 
-           key={i} 
-           className="absolute w-6 h-6 bg-gray-400 rounded-full blur-md opacity-0 animate-smoke"
-           style={{
-              animationDelay: `${i * 0.3}s`,
-              left: '50%',
-              marginLeft: `${Math.random() * 30 - 15}px`, 
-              transform: 'translateX(-50%)'
-           }}
-         />
-      ))}
-    </div>
-  );
-}
-
 const root = createRoot(document.getElementById("root")!);
 root.render(<App />);
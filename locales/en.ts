@@ -0,0 +1,383 @@
+// English catalog. It defines the message keys; every other locale must provide all of them.
+export const en = {
+  // --- Common ---
+  "common.on": "On",
+  "common.off": "Off",
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.close": "Close",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+  "common.moveUp": "Move up",
+  "common.moveDown": "Move down",
+  "common.skip": "Skip",
+  "unit.days": "{n}d",
+  "duration.dh": "{d}d {h}h",
+  "duration.hm": "{h}h {m}m",
+  "duration.m": "{m}m",
+  "duration.ms": "{m}m {s}s",
+  "duration.s": "{s}s",
+
+  // --- Header & Main ---
+  "header.totalSaved": "Total Saved",
+  "header.spent": "{amount} spent",
+  "header.net": "net",
+  "header.swapped": "{percent}% swapped",
+  "header.packsNotBought": "{n} packs not bought",
+  "main.light": "Light One",
+  "main.logReal": "I smoked a real one",
+  "main.putOut": "Put Out",
+  "main.pause": "Pause",
+  "main.resume": "Resume",
+  "main.paused": "Paused. The stick stops burning until you resume.",
+  "main.inhaling": "Inhaling…",
+  "main.holdToPuff": "Hold to puff",
+  "main.planOver": "Over today's allowance by {n}",
+  "main.planLeft": "Today: {n} real left",
+  "a11y.prevBrand": "Previous brand",
+  "a11y.nextBrand": "Next brand",
+  "a11y.burnProgress": "{brand} burned",
+  "a11y.burned": "{percent}% burned",
+  "a11y.lit": "{brand} lit",
+
+  // --- Session Summary ---
+  "summary.success": "Success!",
+  "summary.partial": "Put out at {percent}%",
+  "summary.saved": "You saved {amount}",
+  "summary.breaths": "{n} deep breaths",
+  "summary.puffs": "{n} puffs · {inhaled} inhaled · {total} total",
+  "summary.cravingAsk": "Craving was {n}. How about now?",
+  "summary.cravingChange": "Craving {before} → {after}",
+  "summary.another": "Another One",
+
+  // --- Share Card ---
+  "share.action": "Share",
+  "share.title": "Share",
+  "share.template.ember": "Ember",
+  "share.template.minimal": "Minimal",
+  "share.template.receipt": "Receipt",
+  "share.size.square": "Square",
+  "share.size.story": "Story",
+  "share.download": "Download",
+  "share.share": "Share…",
+  "share.text": "{amount} saved by not smoking so far.",
+  "share.saved": "Saved this time",
+  "share.total": "{amount} saved in total",
+  "share.streak": "{n}-day streak",
+  "share.receiptItem": "1 × {brand}, not smoked  {amount}",
+  "share.receiptTotal": "TOTAL SAVED  {amount}",
+  "share.appName": "Virtual Smoke Break",
+
+  // --- Recovery ---
+  "recovery.title": "Recovery",
+  "recovery.header": "{elapsed} smoke-free · {milestone} in {countdown}",
+  "recovery.smokeFreeFor": "Smoke-free for",
+  "recovery.next": "Next: {milestone} in {countdown}",
+  "recovery.reached": "Milestone reached: {milestone}",
+  "recovery.empty": "Log a real cigarette or set when you had your last one to start the timeline.",
+  "recovery.lastCigarette": "Last real cigarette",
+  "recovery.lastCigaretteHint": "Logging a real cigarette restarts the timeline.",
+  "recovery.at.20m": "20 minutes",
+  "recovery.at.12h": "12 hours",
+  "recovery.at.48h": "48 hours",
+  "recovery.at.72h": "72 hours",
+  "recovery.at.2w": "2 weeks",
+  "recovery.at.1mo": "1 month",
+  "recovery.at.3mo": "3 months",
+  "recovery.at.1y": "1 year",
+  "recovery.at.5y": "5 years",
+  "recovery.at.10y": "10 years",
+  "recovery.body.20m": "Heart rate and blood pressure drop",
+  "recovery.body.12h": "Carbon monoxide in the blood is back to normal",
+  "recovery.body.48h": "Smell and taste start to come back",
+  "recovery.body.72h": "Breathing gets easier as the airways relax",
+  "recovery.body.2w": "Circulation and lung function improve",
+  "recovery.body.1mo": "Coughing and shortness of breath ease",
+  "recovery.body.3mo": "Lungs clear mucus better, fewer infections",
+  "recovery.body.1y": "Heart disease risk is half that of a smoker",
+  "recovery.body.5y": "Stroke risk falls to that of a non-smoker",
+  "recovery.body.10y": "Lung cancer death risk is about half that of a smoker",
+
+  // --- Savings Goals ---
+  "goals.title": "Savings Goals",
+  "goals.empty": "No goals yet. Add one below and every virtual cigarette puts its price towards it.",
+  "goals.current": "Saving for this",
+  "goals.focus": "Save for this first",
+  "goals.progress": "{name} · {percent}%",
+  "goals.eta": "Reached around {date}",
+  "goals.noPace": "No savings in the last two weeks",
+  "goals.deadline": "Due {date}",
+  "goals.name": "Goal",
+  "goals.namePlaceholder": "New headphones",
+  "goals.target": "Target ({symbol})",
+  "goals.deadlineOptional": "Deadline (optional)",
+  "goals.add": "Add Goal",
+  "goals.hint": "Goals are funded one at a time, top first. Whatever a finished goal doesn't need goes to the next.",
+  "goals.deleteConfirm": "Delete \"{name}\"? The amount saved towards it is dropped.",
+  "goals.archive": "Reached",
+  "goals.completedOn": "Reached {date}",
+  "goals.reached": "Goal reached: {name}!",
+
+  // --- Break Mode ---
+  "break.start": "Take a Break",
+  "break.end": "Back to Work",
+  "break.backToWork": "Back to Work",
+  "break.done": "Break over!",
+  "break.took": "{type} · {duration}",
+  "break.focusBefore": "Focused for {duration} before this break",
+  "break.focused": "Focused For",
+  "break.today": "{n} breaks today",
+  "break.timeUp": "Time's up",
+  "break.length": "Break Length",
+  "break.type.walk": "Walk",
+  "break.type.stretch": "Stretch",
+  "break.type.water": "Water",
+  "break.type.air": "Fresh Air",
+  "break.reminderTitle": "Time for a Break?",
+  "break.reminderBody": "You've been at it for {elapsed}. Get up and move!",
+  "break.reminderBodyFirst": "Get up and move!",
+  "break.log": "Breaks",
+  "break.empty": "No breaks yet.",
+  "break.perDay": "Per Day",
+  "break.average": "Avg Break",
+  "break.longestFocus": "Longest Focus",
+  "break.daily": "Breaks per Day",
+  "break.byType": "By Type",
+
+  // --- Reminders ---
+  "reminder.title": "Time for a Smoke Break?",
+  "reminder.body": "It's been {elapsed}. Have a virtual cigarette!",
+  "reminder.bodyFirst": "Have a virtual cigarette!",
+  "reminder.snooze": "Snooze {duration}",
+  "reminders.activeHours": "Active Hours",
+  "reminders.start": "Start Time",
+  "reminders.end": "End Time",
+  "reminders.nextDay": "(next day)",
+  "reminders.noWindows": "No active hours, so no reminders.",
+  "reminders.addWindow": "Add Window",
+  "reminders.interval": "Reminder Interval",
+  "reminders.every": "Every {interval}",
+  "reminders.dailyLimit": "Daily Limit",
+  "reminders.noLimit": "No Limit",
+  "reminders.perDay": "{n} Reminders a Day",
+  "reminders.nextAt": "Next reminder at",
+  "reminders.snoozedUntil": "Snoozed until {time}, cancel",
+  "notifications.unsupported": "This browser does not support desktop notification",
+  "notifications.enabledTitle": "Reminders Enabled",
+  "notifications.enabledBody": "You will be reminded to take a break.",
+
+  // --- Settings ---
+  "settings.title": "Settings",
+  "settings.language": "Language & Currency",
+  "settings.languageAuto": "Browser Language",
+  "settings.currencyHint": "Prices are not converted; the currency only changes how amounts are shown.",
+  "settings.appMode": "Mode",
+  "settings.appMode.smoke": "Smoking",
+  "settings.appMode.break": "Work Breaks",
+  "settings.appModeHint": "Work breaks mode is for non-smokers: time a walk, stretch or water break and track focus time between breaks. Break records are kept apart from smoking records.",
+  "settings.smokingMode": "Smoking Mode",
+  "settings.modeAuto": "Auto Burn ({duration})",
+  "settings.modePuff": "Hold to Puff (mouse, touch or Space)",
+  "settings.breathing": "Breathing Coach",
+  "settings.cravingJournal": "Craving Journal",
+  "settings.cravingJournalHint": "Rate the craving and tag what triggered it before lighting up, then rate it again after.",
+  "settings.brands": "Brands",
+  "settings.brandsHint": "Add your own brands, adjust prices or reorder the carousel.",
+  "settings.manageBrands": "Manage Brands",
+  "settings.purchases": "Pack Purchases",
+  "settings.notifications": "Notifications",
+  "settings.notificationsHint": "Get a system notification when it's time for a smoke break.",
+  "settings.enableNotifications": "Enable Notifications",
+
+  // --- Sync ---
+  "sync.title": "Sync",
+  "sync.endpoint": "Server URL",
+  "sync.connect": "Save & Sync",
+  "sync.disconnect": "Turn Off Sync",
+  "sync.now": "Sync Now",
+  "sync.lastSync": "last synced {time}",
+  "sync.never": "not synced yet",
+  "sync.hint": "Keeps records and settings in step across devices through your own server. Changes made offline are sent once it's reachable again.",
+  "sync.status.pending": "Changes waiting to sync",
+  "sync.status.syncing": "Syncing…",
+  "sync.status.synced": "Synced",
+  "sync.status.offline": "Offline, changes queued",
+  "sync.status.error": "Sync failed, will retry",
+
+  // --- Motivational Messages ---
+  "messages.title": "Motivational Messages",
+  "messages.source": "Source",
+  "messages.provider.offline": "Built-in",
+  "messages.provider.gemini": "Gemini",
+  "messages.provider.http": "Custom Server",
+  "messages.tone": "Tone",
+  "messages.tone.witty": "Witty",
+  "messages.tone.gentle": "Gentle",
+  "messages.tone.coach": "Coach",
+  "messages.apiKey": "Gemini API Key",
+  "messages.apiKeyHint": "Stored on this device only",
+  "messages.endpoint": "Endpoint URL",
+  "messages.fallbackHint": "Falls back to the built-in messages when the source is slow, busy or offline.",
+
+  // --- Sound & Haptics ---
+  "feedback.title": "Sound & Haptics",
+  "feedback.volume": "Volume",
+  "feedback.effect.ignition": "Lighter",
+  "feedback.effect.crackle": "Crackle",
+  "feedback.effect.exhale": "Exhale",
+  "feedback.effect.haptics": "Vibration",
+  "feedback.quietInActiveHours": "Silent during active hours",
+  "feedback.quietHint": "Mutes the sounds inside your reminder windows, for the office. Vibration still works.",
+
+  // --- Breathing Coach ---
+  "breath.inhale": "Inhale",
+  "breath.hold": "Hold",
+  "breath.exhale": "Exhale",
+  "breath.rest": "Rest",
+  "breath.count": "{n} breaths",
+  "breath.pattern.simple": "4-4 Simple",
+  "breath.pattern.478": "4-7-8 Relax",
+  "breath.pattern.box": "Box 4-4-4-4",
+
+  // --- Brands ---
+  "brands.title": "Brands",
+  "brands.name": "Name",
+  "brands.subName": "Sub Name",
+  "brands.per.stick": "Price per Stick",
+  "brands.per.pack": "Price per Pack",
+  "brands.perStickPrice": "{price} / stick",
+  "brands.price": "Price ({symbol})",
+  "brands.packSize": "Sticks per Pack",
+  "brands.filterColor": "Filter Color",
+  "brands.texture.plain": "Plain",
+  "brands.texture.cork": "Cork",
+  "brands.texture.striped": "Striped",
+  "brands.bodyColor": "Body Color",
+  "brands.textColor": "Text Color",
+  "brands.stickType": "Stick Type",
+  "brands.stick.slim": "Slim",
+  "brands.stick.regular": "Regular",
+  "brands.stick.king": "King Size",
+  "brands.stick.cigar": "Cigar",
+  "brands.stick.heated": "Heated",
+  "brands.burnTime": "Burn Time (seconds, blank for the type's default)",
+  "brands.ring": "Filter Ring",
+  "brands.ringColor": "Ring Color",
+  "brands.restore": "Restore Defaults",
+  "brands.restoreConfirm": "Restore the built-in brands? Custom brands will be removed.",
+  "brands.add": "Add Brand",
+
+  // --- Pack Purchases ---
+  "purchases.title": "Pack Purchases",
+  "purchases.open": "Pack purchases for {brand}",
+  "purchases.current": "Price per stick",
+  "purchases.source.latest": "Latest Pack",
+  "purchases.source.average": "Average",
+  "purchases.sourceHint": "New sessions save this price. Past records keep the price they were logged at.",
+  "purchases.noPurchases": "No packs logged for this brand yet, so the price from the brand editor is used.",
+  "purchases.history": "Price per stick over time",
+  "purchases.chartEmpty": "Log two packs to see how the price moves.",
+  "purchases.packPrice": "Pack Price ({symbol})",
+  "purchases.packSize": "Sticks per Pack",
+  "purchases.date": "Bought On",
+  "purchases.add": "Log Purchase",
+  "purchases.pack": "{price} for {n}",
+
+  // --- Stats ---
+  "stats.title": "Stats",
+  "stats.tab.overview": "Overview",
+  "stats.tab.cravings": "Cravings",
+  "stats.empty": "Nothing to chart yet.",
+  "stats.streak": "Streak",
+  "stats.best": "Best",
+  "stats.avgGap": "Avg Gap",
+  "stats.period.day": "Daily",
+  "stats.period.week": "Weekly",
+  "stats.period.month": "Monthly",
+  "stats.sessions": "Sessions",
+  "stats.saved": "Saved",
+  "stats.busiestHours": "Busiest Hours",
+  "stats.peak": "peak {hour}:00",
+  "stats.byBrand": "By Brand",
+
+  // --- Craving Journal ---
+  "craving.howStrong": "How strong is the craving?",
+  "craving.whatTriggered": "What set it off?",
+  "craving.other": "Other…",
+  "craving.light": "Light",
+  "craving.empty": "Rate your cravings before and after a session to see insights here.",
+  "craving.typicalDrop": "Typical craving drop",
+  "craving.dropDetail": "{before} → {after} over {n} sessions",
+  "craving.topTriggers": "Top Triggers",
+  "craving.byHour": "Craving by Hour",
+  "craving.night": "Night",
+  "craving.morning": "Morning",
+  "craving.afternoon": "Afternoon",
+  "craving.evening": "Evening",
+  "trigger.stress": "stress",
+  "trigger.coffee": "coffee",
+  "trigger.after meal": "after meal",
+  "trigger.boredom": "boredom",
+  "trigger.meeting": "meeting",
+
+  // --- History ---
+  "history.title": "Records",
+  "history.all": "All",
+  "history.virtual": "Virtual",
+  "history.real": "Real",
+  "history.realTag": "real",
+  "history.partialTag": "{percent}% smoked",
+  "history.empty": "Empty ashtray.",
+  "history.search": "Search brands",
+  "history.from": "From",
+  "history.to": "To",
+  "history.count": "{n} records",
+  "history.dayCount": "{date}: {n}",
+  "history.showAll": "Show all days",
+  "history.less": "Less",
+  "history.more": "More",
+  "history.select": "Select",
+  "history.deleteSelected": "Delete {n}",
+  "history.deleted": "Deleted {n} records",
+  "history.edited": "Record updated",
+  "history.editHint": "Picking another brand reprices the record.",
+  "history.undo": "Undo",
+  "history.edit": "Edit {brand}",
+  "history.delete": "Delete {brand}",
+
+  // --- Backup ---
+  "backup.title": "Backup",
+  "backup.mode.merge": "Merge",
+  "backup.mode.replace": "Replace",
+  "backup.mode.mergeHint": "Adds records whose id isn't here yet. Settings are kept.",
+  "backup.mode.replaceHint": "Replaces all records, and settings, quit plan, savings goals, breaks and pack purchases too when the file is a JSON backup.",
+  "backup.import": "Import JSON / CSV",
+  "backup.replaceConfirm": "Replace all {current} records with {incoming} from {file}?",
+  "backup.imported": "Imported {n} records.",
+  "backup.added": "Added {added} new records ({duplicates} duplicates).",
+  "backup.invalidSkipped": "{n} invalid rows skipped.",
+  "backup.failed": "Import failed: {reason}",
+  "backup.error.csvColumns": "CSV must have at least `id` and `time` columns",
+  "backup.error.invalidJson": "File is not valid JSON",
+  "backup.error.notBackup": "Not a backup exported by this app",
+  "backup.error.newerVersion": "Backup was made by a newer version of the app",
+
+  // --- Quit Plan ---
+  "plan.title": "Quit Plan",
+  "plan.intro": "Cut down step by step: each day allows a few fewer real cigarettes until none on your quit date. Every virtual one counts as a swap.",
+  "plan.baseline": "Real cigarettes per day now",
+  "plan.quitDate": "Quit date",
+  "plan.start": "Start Plan",
+  "plan.smokeFree": "Smoke-free target",
+  "plan.dayOf": "Day {n} of {total}",
+  "plan.over": "over today's allowance",
+  "plan.left": "real ones left today",
+  "plan.swapped": "{n} swapped",
+  "plan.onTarget": "{n} / {total} days on target",
+  "plan.logReal": "I Smoked a Real One",
+  "plan.quitOn": "Quit {date}",
+  "plan.end": "End Plan",
+  "plan.endConfirm": "End the quit plan? Your logged cigarettes stay in history.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,383 @@
+import { MessageKey } from "./en";
+
+// Simplified Chinese catalog
+export const zhCN: Record<MessageKey, string> = {
+  // --- Common ---
+  "common.on": "开",
+  "common.off": "关",
+  "common.save": "保存",
+  "common.cancel": "取消",
+  "common.close": "关闭",
+  "common.edit": "编辑",
+  "common.delete": "删除",
+  "common.moveUp": "上移",
+  "common.moveDown": "下移",
+  "common.skip": "跳过",
+  "unit.days": "{n}天",
+  "duration.dh": "{d}天{h}小时",
+  "duration.hm": "{h}小时{m}分",
+  "duration.m": "{m}分钟",
+  "duration.ms": "{m}分{s}秒",
+  "duration.s": "{s}秒",
+
+  // --- Header & Main ---
+  "header.totalSaved": "累计节省",
+  "header.spent": "花费 {amount}",
+  "header.net": "净省",
+  "header.swapped": "替换率 {percent}%",
+  "header.packsNotBought": "少买了 {n} 包",
+  "main.light": "来一根",
+  "main.logReal": "抽了一根真的",
+  "main.putOut": "熄灭",
+  "main.pause": "暂停",
+  "main.resume": "继续",
+  "main.paused": "已暂停，继续前不会再燃烧。",
+  "main.inhaling": "吸…",
+  "main.holdToPuff": "按住吸一口",
+  "main.planOver": "今日已超出 {n} 根",
+  "main.planLeft": "今日还可抽 {n} 根真烟",
+  "a11y.prevBrand": "上一个品牌",
+  "a11y.nextBrand": "下一个品牌",
+  "a11y.burnProgress": "{brand} 燃烧进度",
+  "a11y.burned": "已燃烧 {percent}%",
+  "a11y.lit": "已点燃 {brand}",
+
+  // --- Session Summary ---
+  "summary.success": "成功！",
+  "summary.partial": "抽到 {percent}% 时熄灭",
+  "summary.saved": "省下了 {amount}",
+  "summary.breaths": "{n} 次深呼吸",
+  "summary.puffs": "{n} 口 · 吸入 {inhaled} · 共 {total}",
+  "summary.cravingAsk": "刚才烟瘾是 {n}，现在呢？",
+  "summary.cravingChange": "烟瘾 {before} → {after}",
+  "summary.another": "再来一根",
+
+  // --- Share Card ---
+  "share.action": "分享",
+  "share.title": "分享",
+  "share.template.ember": "余烬",
+  "share.template.minimal": "简洁",
+  "share.template.receipt": "小票",
+  "share.size.square": "方形",
+  "share.size.story": "竖版",
+  "share.download": "下载",
+  "share.share": "分享…",
+  "share.text": "不抽烟已经省下 {amount}。",
+  "share.saved": "这一根省下",
+  "share.total": "累计省下 {amount}",
+  "share.streak": "连续 {n} 天",
+  "share.receiptItem": "{brand} × 1（未抽）  {amount}",
+  "share.receiptTotal": "累计节省  {amount}",
+  "share.appName": "没事一根烟",
+
+  // --- Recovery ---
+  "recovery.title": "身体恢复",
+  "recovery.header": "已无烟 {elapsed} · {countdown}后到{milestone}",
+  "recovery.smokeFreeFor": "已经无烟",
+  "recovery.next": "下一站：{countdown}后，{milestone}",
+  "recovery.reached": "达成里程碑：{milestone}",
+  "recovery.empty": "记录一根真烟，或设置最后一根真烟的时间，即可开始恢复时间线。",
+  "recovery.lastCigarette": "最后一根真烟",
+  "recovery.lastCigaretteHint": "记录真烟会让时间线重新开始。",
+  "recovery.at.20m": "20分钟",
+  "recovery.at.12h": "12小时",
+  "recovery.at.48h": "48小时",
+  "recovery.at.72h": "72小时",
+  "recovery.at.2w": "2周",
+  "recovery.at.1mo": "1个月",
+  "recovery.at.3mo": "3个月",
+  "recovery.at.1y": "1年",
+  "recovery.at.5y": "5年",
+  "recovery.at.10y": "10年",
+  "recovery.body.20m": "心率和血压开始下降",
+  "recovery.body.12h": "血液中的一氧化碳恢复正常",
+  "recovery.body.48h": "嗅觉和味觉开始恢复",
+  "recovery.body.72h": "气道放松，呼吸更顺畅",
+  "recovery.body.2w": "血液循环和肺功能改善",
+  "recovery.body.1mo": "咳嗽和气短减轻",
+  "recovery.body.3mo": "肺部清除痰液的能力增强，感染减少",
+  "recovery.body.1y": "冠心病风险降为吸烟者的一半",
+  "recovery.body.5y": "中风风险降至与不吸烟者相当",
+  "recovery.body.10y": "肺癌死亡风险约为吸烟者的一半",
+
+  // --- Savings Goals ---
+  "goals.title": "存钱目标",
+  "goals.empty": "还没有目标。在下面添加一个，每根虚拟烟省下的钱都会存进去。",
+  "goals.current": "正在存",
+  "goals.focus": "优先存这个",
+  "goals.progress": "{name} · {percent}%",
+  "goals.eta": "预计 {date} 达成",
+  "goals.noPace": "最近两周没有节省",
+  "goals.deadline": "截止 {date}",
+  "goals.name": "目标",
+  "goals.namePlaceholder": "新耳机",
+  "goals.target": "金额（{symbol}）",
+  "goals.deadlineOptional": "截止日期（可选）",
+  "goals.add": "添加目标",
+  "goals.hint": "目标按顺序逐个存，排在最前面的先存。达成后多出的钱会转入下一个目标。",
+  "goals.deleteConfirm": "删除“{name}”？已存入的金额将一并清除。",
+  "goals.archive": "已达成",
+  "goals.completedOn": "{date} 达成",
+  "goals.reached": "目标达成：{name}！",
+
+  // --- Break Mode ---
+  "break.start": "摸鱼一下",
+  "break.end": "回去干活",
+  "break.backToWork": "回去干活",
+  "break.done": "摸鱼结束！",
+  "break.took": "{type} · {duration}",
+  "break.focusBefore": "休息前专注了 {duration}",
+  "break.focused": "已专注",
+  "break.today": "今天休息 {n} 次",
+  "break.timeUp": "时间到",
+  "break.length": "休息时长",
+  "break.type.walk": "走走",
+  "break.type.stretch": "拉伸",
+  "break.type.water": "喝水",
+  "break.type.air": "透透气",
+  "break.reminderTitle": "该摸鱼了？",
+  "break.reminderBody": "已经连续工作 {elapsed} 了，起来活动一下吧！",
+  "break.reminderBodyFirst": "起来活动一下吧！",
+  "break.log": "休息记录",
+  "break.empty": "还没有休息记录。",
+  "break.perDay": "日均",
+  "break.average": "平均时长",
+  "break.longestFocus": "最长专注",
+  "break.daily": "每日休息次数",
+  "break.byType": "按类型",
+
+  // --- Reminders ---
+  "reminder.title": "该休息一下了？",
+  "reminder.body": "已经过去 {elapsed} 了，来一根虚拟烟吧！",
+  "reminder.bodyFirst": "来一根虚拟烟吧！",
+  "reminder.snooze": "稍后 {duration}",
+  "reminders.activeHours": "提醒时段",
+  "reminders.start": "开始时间",
+  "reminders.end": "结束时间",
+  "reminders.nextDay": "（次日）",
+  "reminders.noWindows": "没有提醒时段，不会发送提醒。",
+  "reminders.addWindow": "添加时段",
+  "reminders.interval": "提醒间隔",
+  "reminders.every": "每 {interval}",
+  "reminders.dailyLimit": "每日上限",
+  "reminders.noLimit": "不限",
+  "reminders.perDay": "每天 {n} 次",
+  "reminders.nextAt": "下次提醒",
+  "reminders.snoozedUntil": "已暂停至 {time}，点击取消",
+  "notifications.unsupported": "此浏览器不支持桌面通知",
+  "notifications.enabledTitle": "提醒已开启",
+  "notifications.enabledBody": "到时间会提醒你休息一下。",
+
+  // --- Settings ---
+  "settings.title": "设置",
+  "settings.language": "语言与货币",
+  "settings.languageAuto": "跟随浏览器",
+  "settings.currencyHint": "价格不会换算，货币只影响金额的显示方式。",
+  "settings.appMode": "模式",
+  "settings.appMode.smoke": "抽烟",
+  "settings.appMode.break": "摸鱼休息",
+  "settings.appModeHint": "摸鱼模式适合不抽烟的人：给散步、拉伸或喝水计时，并记录两次休息之间的专注时间。休息记录与抽烟记录分开保存。",
+  "settings.smokingMode": "抽烟模式",
+  "settings.modeAuto": "自动燃烧（{duration}）",
+  "settings.modePuff": "按住吸烟（鼠标、触摸或空格键）",
+  "settings.breathing": "呼吸引导",
+  "settings.cravingJournal": "烟瘾日记",
+  "settings.cravingJournalHint": "点烟前给烟瘾打分并标记诱因，抽完后再打一次分。",
+  "settings.brands": "品牌",
+  "settings.brandsHint": "添加自己的品牌、调整价格或轮播顺序。",
+  "settings.manageBrands": "管理品牌",
+  "settings.purchases": "购烟记录",
+  "settings.notifications": "通知",
+  "settings.notificationsHint": "到休息时间时发送系统通知。",
+  "settings.enableNotifications": "开启通知",
+
+  // --- Sync ---
+  "sync.title": "多设备同步",
+  "sync.endpoint": "服务器地址",
+  "sync.connect": "保存并同步",
+  "sync.disconnect": "关闭同步",
+  "sync.now": "立即同步",
+  "sync.lastSync": "上次同步 {time}",
+  "sync.never": "尚未同步",
+  "sync.hint": "通过你自己的服务器在多台设备间同步记录和设置。离线时的改动会在连上后自动发送。",
+  "sync.status.pending": "有改动待同步",
+  "sync.status.syncing": "同步中…",
+  "sync.status.synced": "已同步",
+  "sync.status.offline": "离线，改动已排队",
+  "sync.status.error": "同步失败，稍后重试",
+
+  // --- Motivational Messages ---
+  "messages.title": "鼓励语",
+  "messages.source": "来源",
+  "messages.provider.offline": "内置",
+  "messages.provider.gemini": "Gemini",
+  "messages.provider.http": "自定义服务器",
+  "messages.tone": "语气",
+  "messages.tone.witty": "幽默",
+  "messages.tone.gentle": "温柔",
+  "messages.tone.coach": "教练",
+  "messages.apiKey": "Gemini API 密钥",
+  "messages.apiKeyHint": "仅保存在本设备",
+  "messages.endpoint": "接口地址",
+  "messages.fallbackHint": "来源响应慢、繁忙或离线时，改用内置鼓励语。",
+
+  // --- Sound & Haptics ---
+  "feedback.title": "声音与震动",
+  "feedback.volume": "音量",
+  "feedback.effect.ignition": "打火",
+  "feedback.effect.crackle": "燃烧声",
+  "feedback.effect.exhale": "呼气",
+  "feedback.effect.haptics": "震动",
+  "feedback.quietInActiveHours": "活跃时段静音",
+  "feedback.quietHint": "在提醒时段内不播放声音，适合办公室。震动不受影响。",
+
+  // --- Breathing Coach ---
+  "breath.inhale": "吸气",
+  "breath.hold": "屏息",
+  "breath.exhale": "呼气",
+  "breath.rest": "停顿",
+  "breath.count": "{n} 次呼吸",
+  "breath.pattern.simple": "4-4 简单呼吸",
+  "breath.pattern.478": "4-7-8 放松呼吸",
+  "breath.pattern.box": "4-4-4-4 箱式呼吸",
+
+  // --- Brands ---
+  "brands.title": "品牌",
+  "brands.name": "名称",
+  "brands.subName": "副名称",
+  "brands.per.stick": "按支定价",
+  "brands.per.pack": "按包定价",
+  "brands.perStickPrice": "{price} / 支",
+  "brands.price": "价格（{symbol}）",
+  "brands.packSize": "每包支数",
+  "brands.filterColor": "滤嘴颜色",
+  "brands.texture.plain": "纯色",
+  "brands.texture.cork": "软木纹",
+  "brands.texture.striped": "条纹",
+  "brands.bodyColor": "烟身颜色",
+  "brands.textColor": "文字颜色",
+  "brands.stickType": "烟支类型",
+  "brands.stick.slim": "细支",
+  "brands.stick.regular": "常规",
+  "brands.stick.king": "加长",
+  "brands.stick.cigar": "雪茄",
+  "brands.stick.heated": "加热烟",
+  "brands.burnTime": "燃烧时间（秒，留空则按类型默认）",
+  "brands.ring": "滤嘴金环",
+  "brands.ringColor": "金环颜色",
+  "brands.restore": "恢复默认",
+  "brands.restoreConfirm": "恢复内置品牌？自定义品牌将被删除。",
+  "brands.add": "添加品牌",
+
+  // --- Pack Purchases ---
+  "purchases.title": "购烟记录",
+  "purchases.open": "{brand} 的购烟记录",
+  "purchases.current": "单支价格",
+  "purchases.source.latest": "最近一包",
+  "purchases.source.average": "平均",
+  "purchases.sourceHint": "新的记录按这个价格计算，旧记录保留当时的价格。",
+  "purchases.noPurchases": "这个品牌还没有购烟记录，暂用品牌设置里的价格。",
+  "purchases.history": "单支价格走势",
+  "purchases.chartEmpty": "记录两包以上就能看到价格变化。",
+  "purchases.packPrice": "整包价格（{symbol}）",
+  "purchases.packSize": "每包支数",
+  "purchases.date": "购买日期",
+  "purchases.add": "记录购买",
+  "purchases.pack": "{price} / {n} 支",
+
+  // --- Stats ---
+  "stats.title": "统计",
+  "stats.tab.overview": "概览",
+  "stats.tab.cravings": "烟瘾",
+  "stats.empty": "还没有数据。",
+  "stats.streak": "连续",
+  "stats.best": "最长",
+  "stats.avgGap": "平均间隔",
+  "stats.period.day": "按日",
+  "stats.period.week": "按周",
+  "stats.period.month": "按月",
+  "stats.sessions": "次数",
+  "stats.saved": "节省",
+  "stats.busiestHours": "高峰时段",
+  "stats.peak": "高峰 {hour}:00",
+  "stats.byBrand": "按品牌",
+
+  // --- Craving Journal ---
+  "craving.howStrong": "烟瘾有多强？",
+  "craving.whatTriggered": "是什么引起的？",
+  "craving.other": "其他…",
+  "craving.light": "点燃",
+  "craving.empty": "在抽烟前后给烟瘾打分，这里就会出现分析。",
+  "craving.typicalDrop": "烟瘾平均下降",
+  "craving.dropDetail": "{before} → {after}，共 {n} 次",
+  "craving.topTriggers": "主要诱因",
+  "craving.byHour": "各时段烟瘾",
+  "craving.night": "夜间",
+  "craving.morning": "上午",
+  "craving.afternoon": "下午",
+  "craving.evening": "晚上",
+  "trigger.stress": "压力",
+  "trigger.coffee": "咖啡",
+  "trigger.after meal": "饭后",
+  "trigger.boredom": "无聊",
+  "trigger.meeting": "开会",
+
+  // --- History ---
+  "history.title": "记录",
+  "history.all": "全部",
+  "history.virtual": "虚拟",
+  "history.real": "真烟",
+  "history.realTag": "真烟",
+  "history.partialTag": "抽了 {percent}%",
+  "history.empty": "烟灰缸空空如也。",
+  "history.search": "搜索品牌",
+  "history.from": "开始日期",
+  "history.to": "结束日期",
+  "history.count": "{n} 条记录",
+  "history.dayCount": "{date}：{n} 条",
+  "history.showAll": "显示全部日期",
+  "history.less": "少",
+  "history.more": "多",
+  "history.select": "多选",
+  "history.deleteSelected": "删除 {n} 条",
+  "history.deleted": "已删除 {n} 条记录",
+  "history.edited": "记录已更新",
+  "history.editHint": "换成其他品牌会按新价格重新计算。",
+  "history.undo": "撤销",
+  "history.edit": "编辑 {brand}",
+  "history.delete": "删除 {brand}",
+
+  // --- Backup ---
+  "backup.title": "备份",
+  "backup.mode.merge": "合并",
+  "backup.mode.replace": "替换",
+  "backup.mode.mergeHint": "只添加本机没有的记录，设置保持不变。",
+  "backup.mode.replaceHint": "替换全部记录；如果是 JSON 备份，设置、戒烟计划、存钱目标、休息记录和购烟记录也会一并替换。",
+  "backup.import": "导入 JSON / CSV",
+  "backup.replaceConfirm": "用 {file} 中的 {incoming} 条记录替换现有的 {current} 条记录？",
+  "backup.imported": "已导入 {n} 条记录。",
+  "backup.added": "新增 {added} 条记录（{duplicates} 条重复）。",
+  "backup.invalidSkipped": "跳过 {n} 条无效记录。",
+  "backup.failed": "导入失败：{reason}",
+  "backup.error.csvColumns": "CSV 至少需要 `id` 和 `time` 两列",
+  "backup.error.invalidJson": "文件不是有效的 JSON",
+  "backup.error.notBackup": "不是本应用导出的备份",
+  "backup.error.newerVersion": "备份来自更新版本的应用",
+
+  // --- Quit Plan ---
+  "plan.title": "戒烟计划",
+  "plan.intro": "循序渐进地减量：每天允许的真烟逐渐减少，到戒烟日减为零。每一根虚拟烟都算一次替换。",
+  "plan.baseline": "目前每天抽几根真烟",
+  "plan.quitDate": "戒烟日期",
+  "plan.start": "开始计划",
+  "plan.smokeFree": "无烟目标",
+  "plan.dayOf": "第 {n} 天 / 共 {total} 天",
+  "plan.over": "超出今日额度",
+  "plan.left": "今日剩余真烟额度",
+  "plan.swapped": "替换 {n} 根",
+  "plan.onTarget": "{n} / {total} 天达标",
+  "plan.logReal": "抽了一根真的",
+  "plan.quitOn": "戒烟日 {date}",
+  "plan.end": "结束计划",
+  "plan.endConfirm": "结束戒烟计划？已记录的真烟会保留在记录中。",
+};
@@ -0,0 +1,199 @@
+// Service worker: offline app shell and reminder notifications while the tab is closed.
+
+// Sets self.PRECACHE = { version, files }: the hashed bundles of this build, written by vite.config.ts
+importScripts("/precache-manifest.js");
+
+const SHELL_CACHE = `smoke-shell-${self.PRECACHE.version}`;
+const RUNTIME_CACHE = "smoke-runtime-v1";
+const STATE_CACHE = "smoke-sw-state";
+const STATE_URL = "/__sw_state__";
+
+const SHELL_FILES = ["/", "/index.html", "/manifest.webmanifest", "/icons/icon.svg", "/icons/icon-maskable.svg"];
+
+const SNOOZE_MINUTES = 10;
+
+// --- Persisted state ---
+// { next: number | null, notification: { title, body, lightLabel, snoozeLabel }, shown: number[], snoozeUntil: number }
+
+// Used until the page hands over translated text
+const DEFAULT_NOTIFICATION = {
+  title: "Time for a Smoke Break?",
+  body: "Have a virtual cigarette!",
+  lightLabel: "Light One",
+  snoozeLabel: `Snooze ${SNOOZE_MINUTES}m`,
+};
+
+const DEFAULT_STATE = { next: null, notification: DEFAULT_NOTIFICATION, shown: [], snoozeUntil: 0 };
+
+const readState = async () => {
+  const cache = await caches.open(STATE_CACHE);
+  const response = await cache.match(STATE_URL);
+  return response ? { ...DEFAULT_STATE, ...(await response.json()) } : { ...DEFAULT_STATE };
+};
+
+const writeState = async (state) => {
+  const cache = await caches.open(STATE_CACHE);
+  await cache.put(STATE_URL, new Response(JSON.stringify(state), { headers: { "Content-Type": "application/json" } }));
+};
+
+// --- Lifecycle ---
+
+// Everything the first offline load needs, so it works before the worker ever controlled a page
+const precache = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll([...SHELL_FILES, ...self.PRECACHE.files]);
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  const keep = [SHELL_CACHE, RUNTIME_CACHE, STATE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => !keep.includes(k)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// --- Fetch ---
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || network;
+};
+
+// Pages go to the network first so a deploy shows up on the next load
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    const cache = await caches.open(SHELL_CACHE);
+    cache.put("/index.html", response.clone());
+    return response;
+  } catch {
+    return (await caches.match("/index.html")) || Response.error();
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// --- Reminders ---
+
+let reminderTimer = null;
+
+const showReminder = async (notification) => {
+  const text = { ...DEFAULT_NOTIFICATION, ...notification };
+  await self.registration.showNotification(text.title, {
+    body: text.body,
+    icon: "/icons/icon.svg",
+    badge: "/icons/icon.svg",
+    tag: "smoke-reminder",
+    renotify: true,
+    actions: [
+      { action: "light", title: text.lightLabel },
+      { action: "snooze", title: text.snoozeLabel },
+    ],
+  });
+};
+
+// Show the scheduled reminder if it's due and the app isn't open. An open page runs its own
+// reminder loop, in a background tab too, so showing one here as well would send it twice.
+const checkReminder = async () => {
+  const state = await readState();
+  if (state.next === null || Date.now() < state.next) return;
+
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  if (windows.length > 0) return;
+
+  await showReminder(state.notification);
+  await writeState({ ...state, next: null, shown: [...state.shown, Date.now()] });
+};
+
+// Only reliable while the worker happens to be alive; periodic sync covers the rest.
+const armTimer = (next) => {
+  if (reminderTimer) clearTimeout(reminderTimer);
+  reminderTimer = null;
+  if (next === null) return;
+  const delay = next - Date.now();
+  if (delay < 5 * 60 * 1000) reminderTimer = setTimeout(checkReminder, Math.max(0, delay));
+};
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === "smoke-reminder") event.waitUntil(checkReminder());
+});
+
+self.addEventListener("message", (event) => {
+  const data = event.data || {};
+
+  if (data.type === "schedule") {
+    event.waitUntil(
+      readState().then((state) => writeState({ ...state, next: data.next, notification: data.notification })).then(() => armTimer(data.next))
+    );
+  } else if (data.type === "show") {
+    // The page decided a reminder is due while hidden; show it here so it gets action buttons
+    event.waitUntil(showReminder(data.notification));
+  } else if (data.type === "collect") {
+    // Hand reminders shown while the app was closed back to the page
+    event.waitUntil(
+      readState().then(async (state) => {
+        event.source?.postMessage({ type: "collected", shown: state.shown, snoozeUntil: state.snoozeUntil });
+        await writeState({ ...state, shown: [], snoozeUntil: 0 });
+      })
+    );
+  }
+});
+
+// --- Notification Actions ---
+
+const openApp = async (action) => {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  if (windows.length > 0) {
+    const client = windows[0];
+    await client.focus();
+    client.postMessage({ type: action });
+    return;
+  }
+  await self.clients.openWindow(`/?action=${action}`);
+};
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+
+  if (event.action === "snooze") {
+    event.waitUntil(
+      (async () => {
+        const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+        if (windows.length > 0) {
+          windows.forEach((c) => c.postMessage({ type: "snooze", minutes: SNOOZE_MINUTES }));
+          return;
+        }
+        const state = await readState();
+        const next = Date.now() + SNOOZE_MINUTES * 60 * 1000;
+        await writeState({ ...state, next, snoozeUntil: next });
+        armTimer(next);
+      })()
+    );
+    return;
+  }
+
+  // "light" and taps on the notification body both start a session
+  event.waitUntil(openApp("light"));
+});
@@ -0,0 +1,102 @@
+// Minimal stand-in for the custom message server described in the README. Answers
+// every POST with a canned message in the requested language and tone, built from the
+// numbers the app sends. Set MESSAGE_DELAY (ms) above 8000 to try the app's timeout fallback.
+//
+//   node server/message-server.mjs [port]
+
+import { createServer } from "node:http";
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const DELAY = Number(process.env.MESSAGE_DELAY ?? 0);
+
+const money = (c, n) => {
+  try {
+    return new Intl.NumberFormat(c.locale, { style: "currency", currency: c.currency }).format(n);
+  } catch {
+    return String(n);
+  }
+};
+
+const MESSAGES = {
+  "zh-CN": {
+    witty: [
+      (c) => `（测试服务器）又省下${money(c, c.savedAmount)}，第${c.sessionCount}根空气烟。`,
+      (c) => `（测试服务器）连续${c.streak}天，累计${money(c, c.totalSaved)}。`,
+    ],
+    gentle: [
+      (c) => `（测试服务器）慢慢来，你已经省下${money(c, c.totalSaved)}。`,
+      (c) => `（测试服务器）这一根帮你留下了${money(c, c.savedAmount)}。`,
+    ],
+    coach: [
+      (c) => `（测试服务器）+${money(c, c.savedAmount)}，已完成${c.sessionCount}次替换。`,
+      (c) => `（测试服务器）连续${c.streak}天，保持节奏。`,
+    ],
+  },
+  en: {
+    witty: [
+      (c) => `(test server) Another ${money(c, c.savedAmount)} saved, cigarette #${c.sessionCount} was pure air.`,
+      (c) => `(test server) ${c.streak} days in a row, ${money(c, c.totalSaved)} so far.`,
+    ],
+    gentle: [
+      (c) => `(test server) Take it slow. You've kept ${money(c, c.totalSaved)} already.`,
+      (c) => `(test server) That one left ${money(c, c.savedAmount)} in your pocket.`,
+    ],
+    coach: [
+      (c) => `(test server) +${money(c, c.savedAmount)}. ${c.sessionCount} swaps done.`,
+      (c) => `(test server) ${c.streak} days in a row. Keep the pace.`,
+    ],
+  },
+};
+
+const isNumber = (v) => typeof v === "number" && Number.isFinite(v);
+
+// The fields the app sends, per the README; anything missing makes the request a 400
+const isContext = (c) =>
+  !!c && typeof c === "object" && ["savedAmount", "totalSaved", "sessionCount", "streak"].every((k) => isNumber(c[k])) &&
+  typeof c.locale === "string" && typeof c.tone === "string" && typeof c.currency === "string";
+
+const pickMessage = (c) => {
+  const byTone = MESSAGES[c.locale] ?? MESSAGES.en;
+  const pool = byTone[c.tone] ?? byTone.witty;
+  return pool[Math.floor(Math.random() * pool.length)](c);
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let text = "";
+    req.on("data", (chunk) => (text += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(text || "{}"));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (req.method !== "POST") return send(res, 405, { error: "method not allowed" });
+
+  let context;
+  try {
+    context = await readBody(req);
+  } catch {
+    return send(res, 400, { error: "body must be JSON" });
+  }
+  if (!isContext(context)) return send(res, 400, { error: "missing message context" });
+
+  if (DELAY > 0) await new Promise((resolve) => setTimeout(resolve, DELAY));
+  send(res, 200, { message: pickMessage(context) });
+}).listen(PORT, () => console.log(`Message server on http://localhost:${PORT}`));
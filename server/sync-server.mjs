@@ -0,0 +1,88 @@
+// Minimal stand-in for the sync API described in the README. One shared history,
+// no accounts, kept in a JSON file next to where it's started. For a home network
+// or a single office, not for the open internet.
+//
+//   node server/sync-server.mjs [port]
+
+import { createServer } from "node:http";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8788);
+const DATA_FILE = process.env.SYNC_DATA ?? "sync-data.json";
+
+// seq counts every change; records, tombstones and settings remember the seq they changed at
+const EMPTY = { seq: 0, records: {}, deleted: {}, settings: null };
+
+const load = () => (existsSync(DATA_FILE) ? JSON.parse(readFileSync(DATA_FILE, "utf8")) : structuredClone(EMPTY));
+const save = () => writeFileSync(DATA_FILE, JSON.stringify(db));
+
+const db = load();
+
+const changesSince = (since) => ({
+  cursor: db.seq,
+  records: Object.values(db.records).filter((r) => r.seq > since).map((r) => r.record),
+  deleted: Object.entries(db.deleted).filter(([, seq]) => seq > since).map(([id]) => Number(id)),
+  settings: db.settings && db.settings.seq > since ? { updatedAt: db.settings.updatedAt, data: db.settings.data } : null,
+});
+
+const applyPush = ({ records = [], deleted = [], settings = null }) => {
+  for (const record of records) {
+    if (typeof record?.id !== "number") continue;
+    db.records[record.id] = { seq: ++db.seq, record };
+    delete db.deleted[record.id];
+  }
+  for (const id of deleted) {
+    if (typeof id !== "number") continue;
+    db.deleted[id] = ++db.seq;
+    delete db.records[id];
+  }
+  // Last writer wins, by the clock of the device that made the change
+  if (settings && typeof settings.updatedAt === "number" && (!db.settings || settings.updatedAt > db.settings.updatedAt)) {
+    db.settings = { seq: ++db.seq, updatedAt: settings.updatedAt, data: settings.data };
+  }
+  save();
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let text = "";
+    req.on("data", (chunk) => (text += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(text || "{}"));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, "http://localhost");
+  if (req.method === "OPTIONS") return send(res, 204);
+  if (url.pathname !== "/changes") return send(res, 404, { error: "not found" });
+
+  if (req.method === "GET") {
+    const since = Number(url.searchParams.get("since") ?? 0);
+    return send(res, 200, changesSince(Number.isFinite(since) ? since : 0));
+  }
+  if (req.method === "POST") {
+    try {
+      applyPush(await readBody(req));
+    } catch {
+      return send(res, 400, { error: "body must be JSON" });
+    }
+    return send(res, 200, { cursor: db.seq });
+  }
+  send(res, 405, { error: "method not allowed" });
+}).listen(PORT, () => console.log(`Sync server on http://localhost:${PORT}, data in ${DATA_FILE}`));
@@ -0,0 +1,8 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './index.tsx', './constants.ts', './components/**/*.tsx', './utils/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
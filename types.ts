@@ -0,0 +1,165 @@
+import type React from "react";
+
+export type FilterTexture = "plain" | "cork" | "striped";
+
+export type StickType = "slim" | "regular" | "king" | "cigar" | "heated";
+
+// Physical make-up of a stick type, in px as rendered by Cigarette3D.
+export interface StickSpec {
+  tobaccoHeight: number;
+  filterHeight: number; // 0 = no filter
+  widthClass: string;
+  burnMs: number; // default time to burn through in auto mode
+  ashChunk: number; // ash drops off once it grows this long, 0 = no ash or ember (heated)
+}
+
+// Editable description of a brand's look; the Tailwind classes on Brand are derived from it.
+export interface BrandAppearance {
+  filterColor: string; // hex
+  filterTexture: FilterTexture;
+  bodyColor: string; // hex
+  textColor: string; // hex
+  slim: boolean;
+  ringColor?: string; // hex
+}
+
+export interface Brand {
+  id: string;
+  name: string;
+  subName: string;
+  pricePerStick: number; // in the user's currency
+  packPrice?: number; // when the price was entered per pack
+  packSize?: number;
+  filterColorClass: string; // Tailwind classes for basic color
+  filterStyle?: React.CSSProperties; // Inline styles for complex gradients/textures
+  bodyColor: string;
+  bodyStyle?: React.CSSProperties; // Inline colours of brands styled in the editor, which leave the classes empty
+  textColor: string;
+  textStyle?: React.CSSProperties;
+  widthClass: string;
+  ringColor?: string;
+  ringStyle?: React.CSSProperties;
+  appearance?: BrandAppearance;
+  stickType?: StickType; // missing on brands saved before stick types: slim or regular from widthClass
+  burnMs?: number; // overrides the stick type's burn time
+  custom?: boolean;
+}
+
+// A pack actually bought; the brand's per-stick price follows these once there are any.
+export interface PackPurchase {
+  id: number;
+  brandId: string;
+  packSize: number;
+  price: number; // for the whole pack
+  date: string; // "2026-01-31", local day
+}
+
+// Which purchases the per-stick price comes from.
+export type PriceSource = "latest" | "average";
+
+// "virtual" sessions replace a cigarette; "real" ones log a cigarette actually smoked.
+export type RecordKind = "virtual" | "real";
+
+export interface SmokeRecord {
+  id: number;
+  kind: RecordKind;
+  date: string;
+  timestamp: number;
+  brandName: string;
+  brandId?: string; // missing on older records, which only have the name to go by
+  savedAmount: number; // 0 for real cigarettes
+  spentAmount?: number; // price paid, real cigarettes only
+  pricePerStick?: number; // the brand's price when the record was made, missing on older records
+  durationMs?: number; // time the session was lit, pauses left out
+  burned?: number; // 0..1, only on sessions put out early
+  puffCount?: number; // hold-to-puff mode only
+  inhaleMs?: number; // total time spent drawing, hold-to-puff mode only
+  breathCycles?: number; // completed breathing coach cycles
+  cravingBefore?: number; // 1..10, craving journal
+  cravingAfter?: number; // 1..10, craving journal
+  triggers?: string[]; // craving journal tags
+  funded?: GoalFunding[]; // what this record put into savings goals, so edits and deletes can take it back
+}
+
+export type SmokingMode = "auto" | "puff";
+
+// Sounds are synthesized with WebAudio; "haptics" is vibration on phones that support it.
+export type FeedbackEffect = "ignition" | "crackle" | "exhale" | "haptics";
+
+export type BreathingPatternId = "simple" | "478" | "box";
+
+export type MessageProviderId = "offline" | "gemini" | "http";
+
+export type MessageTone = "witty" | "gentle" | "coach";
+
+export type Locale = "zh-CN" | "en";
+
+// "break" is for non-smokers who use the app to pace work breaks.
+export type AppMode = "smoke" | "break";
+
+export type BreakType = "walk" | "stretch" | "water" | "air";
+
+// A work break, stored apart from the smoking records.
+export interface BreakRecord {
+  id: number;
+  type: BreakType;
+  timestamp: number; // when the break started
+  durationMs: number;
+}
+
+// A span of time reminders may fire in, e.g. "22:00"-"06:00" for a night shift.
+export interface ReminderWindow {
+  start: string; // "09:00"
+  end: string;   // "18:00", at or before start means it ends the next day
+  days: number[]; // weekdays the window opens on, 0 = Sunday
+}
+
+export interface AppSettings {
+  reminderWindows: ReminderWindow[];
+  intervalMinutes: number;
+  dailyReminderCap: number; // 0 = no cap
+  notificationsEnabled: boolean;
+  smokingMode: SmokingMode;
+  breathingPattern: BreathingPatternId | "off";
+  cravingPrompt: boolean; // ask about the craving before and after a session
+  customTriggers: string[];
+  messageProvider: MessageProviderId;
+  messageTone: MessageTone;
+  geminiApiKey: string; // the user's own key, kept on this device only
+  messageEndpoint: string; // URL for the "http" provider
+  locale: Locale | "auto"; // "auto" follows the browser
+  currency: string; // ISO 4217 code, e.g. "CNY"
+  lastCigaretteAt: number; // set by hand for the recovery timeline, 0 = not set
+  appMode: AppMode;
+  breakType: BreakType; // last picked, preselected next time
+  breakMinutes: number; // length of the break timer
+  soundVolume: number; // 0..1
+  feedbackEffects: FeedbackEffect[]; // the ones switched on
+  quietInActiveHours: boolean; // no sounds inside the reminder windows, e.g. at the office
+  priceSource: PriceSource;
+  syncEndpoint: string; // base URL of a self-hosted sync server, "" = sync off
+}
+
+// Something the money from virtual cigarettes is put towards.
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  target: number;
+  saved: number;
+  deadline?: string; // "2026-06-30", local day
+  createdAt: number;
+  completedAt?: number; // set once saved reaches target; the goal is archived from then on
+}
+
+// Part of a record's savings that went into one goal.
+export interface GoalFunding {
+  goalId: string;
+  amount: number;
+}
+
+// A tapering reduction plan towards a quit date.
+export interface QuitPlan {
+  baselinePerDay: number; // real cigarettes per day before the plan
+  startDate: string; // "2026-01-31", local day
+  quitDate: string; // allowance reaches zero on this day
+}
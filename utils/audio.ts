@@ -0,0 +1,131 @@
+import { AppSettings, FeedbackEffect } from "../types";
+import { inActiveHours } from "./reminders";
+
+// Burn sounds synthesized with WebAudio from filtered noise, so there are no files to download.
+// The context is created on first use; browsers only let it start from a user gesture,
+// which lighting up always is.
+
+export type SoundEffect = Exclude<FeedbackEffect, "haptics">;
+
+export const soundEnabled = (settings: AppSettings, effect: SoundEffect, now: number) =>
+  settings.soundVolume > 0 &&
+  settings.feedbackEffects.includes(effect) &&
+  !(settings.quietInActiveHours && inActiveHours(settings.reminderWindows, now));
+
+let context: AudioContext | null = null;
+let noise: AudioBuffer | null = null;
+
+const audio = () => {
+  if (!context) {
+    const Context = window.AudioContext ?? window.webkitAudioContext;
+    if (!Context) return null;
+    context = new Context();
+  }
+  if (context.state === "suspended") context.resume();
+  return context;
+};
+
+// Two seconds of white noise, looped or sliced by every sound below.
+const noiseBuffer = (ctx: AudioContext) => {
+  if (!noise) {
+    noise = ctx.createBuffer(1, ctx.sampleRate * 2, ctx.sampleRate);
+    const data = noise.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  }
+  return noise;
+};
+
+// Noise through a filter into an envelope; returns the gain so the caller can shape it.
+const noiseVoice = (ctx: AudioContext, type: BiquadFilterType, frequency: number, q = 1, loop = false) => {
+  const source = ctx.createBufferSource();
+  source.buffer = noiseBuffer(ctx);
+  source.loop = loop;
+  const filter = ctx.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = frequency;
+  filter.Q.value = q;
+  const gain = ctx.createGain();
+  gain.gain.value = 0;
+  source.connect(filter).connect(gain).connect(ctx.destination);
+  return { source, filter, gain };
+};
+
+// Lighter strike: a sharp click, then the flame catching.
+export const playIgnition = (volume: number) => {
+  const ctx = audio();
+  if (!ctx) return;
+  const t = ctx.currentTime;
+
+  const click = noiseVoice(ctx, "highpass", 3000);
+  click.gain.gain.setValueAtTime(volume * 0.8, t);
+  click.gain.gain.exponentialRampToValueAtTime(0.001, t + 0.04);
+  click.source.start(t, Math.random());
+  click.source.stop(t + 0.05);
+
+  const flame = noiseVoice(ctx, "bandpass", 900, 0.7);
+  flame.filter.frequency.setValueAtTime(600, t + 0.05);
+  flame.filter.frequency.linearRampToValueAtTime(1400, t + 0.3);
+  flame.gain.gain.setValueAtTime(0, t + 0.05);
+  flame.gain.gain.linearRampToValueAtTime(volume * 0.5, t + 0.15);
+  flame.gain.gain.exponentialRampToValueAtTime(0.001, t + 0.9);
+  flame.source.start(t + 0.05, Math.random());
+  flame.source.stop(t + 1);
+};
+
+// A long, soft breath out.
+export const playExhale = (volume: number, durationMs = 1800) => {
+  const ctx = audio();
+  if (!ctx) return;
+  const t = ctx.currentTime;
+  const length = durationMs / 1000;
+
+  const breath = noiseVoice(ctx, "bandpass", 700, 0.5, true);
+  breath.filter.frequency.setValueAtTime(900, t);
+  breath.filter.frequency.linearRampToValueAtTime(450, t + length);
+  breath.gain.gain.setValueAtTime(0, t);
+  breath.gain.gain.linearRampToValueAtTime(volume * 0.35, t + length * 0.2);
+  breath.gain.gain.linearRampToValueAtTime(0, t + length);
+  breath.source.start(t);
+  breath.source.stop(t + length + 0.05);
+};
+
+export interface Crackle {
+  setDrawing: (drawing: boolean) => void;
+  stop: () => void;
+}
+
+// The burn itself: a low hiss with random pops, busier while someone is drawing on it.
+export const startCrackle = (volume: number): Crackle | null => {
+  const ctx = audio();
+  if (!ctx) return null;
+
+  const hiss = noiseVoice(ctx, "lowpass", 1200, 0.7, true);
+  hiss.gain.gain.setTargetAtTime(volume * 0.04, ctx.currentTime, 0.3);
+  hiss.source.start();
+
+  let drawing = false;
+  let timer = 0;
+  const pop = () => {
+    const t = ctx.currentTime;
+    const crack = noiseVoice(ctx, "bandpass", 2000 + Math.random() * 3000, 4);
+    crack.gain.gain.setValueAtTime(volume * (0.15 + Math.random() * 0.25), t);
+    crack.gain.gain.exponentialRampToValueAtTime(0.001, t + 0.015 + Math.random() * 0.02);
+    crack.source.start(t, Math.random());
+    crack.source.stop(t + 0.05);
+    // Roughly 2 pops a second smouldering, 10 while drawing
+    timer = window.setTimeout(pop, (drawing ? 100 : 500) * (0.3 + Math.random() * 1.4));
+  };
+  timer = window.setTimeout(pop, 300);
+
+  return {
+    setDrawing: (value) => {
+      drawing = value;
+      hiss.gain.gain.setTargetAtTime(volume * (value ? 0.12 : 0.04), ctx.currentTime, 0.1);
+    },
+    stop: () => {
+      clearTimeout(timer);
+      hiss.gain.gain.setTargetAtTime(0, ctx.currentTime, 0.15);
+      hiss.source.stop(ctx.currentTime + 0.6);
+    },
+  };
+};
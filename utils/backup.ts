@@ -0,0 +1,211 @@
+import { SmokeRecord, AppSettings, QuitPlan, SavingsGoal, BreakRecord, PackPurchase } from "../types";
+import { HISTORY_VERSION, SETTINGS_VERSION, upgradeRecords, upgradeSettings, sanitizePlan, sanitizeGoals, sanitizeBreaks, sanitizePurchases } from "./storage";
+
+const BACKUP_APP = "digital-cigarette";
+
+// Exported records carry an ISO `time` instead of the locale-dependent `date`.
+type ExportedRecord = Omit<SmokeRecord, "date"> & { time: string };
+
+interface Backup {
+  app: string;
+  version: number;
+  settingsVersion: number;
+  exportedAt: string;
+  settings: AppSettings;
+  plan?: QuitPlan | null;
+  goals?: SavingsGoal[];
+  breaks?: BreakRecord[];
+  purchases?: PackPurchase[];
+  records: ExportedRecord[];
+}
+
+const CSV_COLUMNS = ["id", "kind", "time", "brandName", "brandId", "savedAmount", "spentAmount", "pricePerStick", "durationMs", "burned", "puffCount", "inhaleMs", "breathCycles", "cravingBefore", "cravingAfter", "triggers"] as const;
+
+const toExported = ({ date, ...rest }: SmokeRecord): ExportedRecord => ({
+  ...rest,
+  time: new Date(rest.timestamp).toISOString(),
+});
+
+// Imported rows get their timestamp from `time` when present.
+const fromExported = (raw: Record<string, unknown>) => {
+  const time = typeof raw.time === "string" ? Date.parse(raw.time) : NaN;
+  const timestamp = Number.isFinite(time) ? time : raw.timestamp;
+  return {
+    ...raw,
+    timestamp,
+    date: typeof timestamp === "number" ? new Date(timestamp).toLocaleString() : undefined,
+  };
+};
+
+export const exportJSON = (history: SmokeRecord[], settings: AppSettings, plan: QuitPlan | null, goals: SavingsGoal[], breaks: BreakRecord[], purchases: PackPurchase[]) => {
+  const backup: Backup = {
+    app: BACKUP_APP,
+    version: HISTORY_VERSION,
+    settingsVersion: SETTINGS_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Keep the API key out of files that get shared around
+    settings: { ...settings, geminiApiKey: "" },
+    plan,
+    goals,
+    breaks,
+    purchases,
+    records: history.map(toExported),
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportCSV = (history: SmokeRecord[]) => {
+  const rows = history.map((r) => {
+    const exported = toExported(r) as Record<string, unknown>;
+    return CSV_COLUMNS.map((c) => {
+      const value = exported[c];
+      return csvCell(Array.isArray(value) ? value.join("|") : value);
+    }).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n");
+};
+
+// RFC 4180-ish: quoted cells, doubled quotes, CRLF or LF line ends.
+const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c !== ""));
+};
+
+const NUMERIC_COLUMNS = new Set(["id", "savedAmount", "spentAmount", "pricePerStick", "durationMs", "burned", "puffCount", "inhaleMs", "breathCycles", "cravingBefore", "cravingAfter"]);
+// List columns are joined with "|" in a single cell
+const LIST_COLUMNS = new Set(["triggers"]);
+
+export type BackupErrorCode = "csvColumns" | "invalidJson" | "notBackup" | "newerVersion";
+
+// Carries a code the UI can translate; the message is for the console.
+export class BackupError extends Error {
+  constructor(readonly code: BackupErrorCode, message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+export interface ParsedBackup {
+  records: SmokeRecord[];
+  settings?: AppSettings;
+  plan?: QuitPlan | null;
+  goals?: SavingsGoal[];
+  breaks?: BreakRecord[];
+  purchases?: PackPurchase[];
+  invalid: number; // rows that failed validation
+}
+
+const fromCSV = (text: string): ParsedBackup => {
+  const [header, ...rows] = parseCSV(text);
+  if (!header || !header.includes("id") || !header.includes("time")) {
+    throw new BackupError("csvColumns", "CSV must have at least `id` and `time` columns");
+  }
+  const raw = rows.map((cells) => {
+    const obj: Record<string, unknown> = {};
+    header.forEach((column, i) => {
+      const cell = cells[i] ?? "";
+      if (cell === "") return;
+      obj[column] = NUMERIC_COLUMNS.has(column) ? Number(cell) : LIST_COLUMNS.has(column) ? cell.split("|") : cell;
+    });
+    return fromExported(obj);
+  });
+  // CSV carries no version; the migrations only fill in missing fields, so run them all
+  const records = upgradeRecords(raw, 0);
+  return { records, invalid: raw.length - records.length };
+};
+
+const fromJSON = (text: string): ParsedBackup => {
+  let parsed: Partial<Backup>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError("invalidJson", "File is not valid JSON");
+  }
+  if (parsed?.app !== BACKUP_APP || !Array.isArray(parsed.records)) {
+    throw new BackupError("notBackup", "Not a backup exported by this app");
+  }
+  const version = typeof parsed.version === "number" ? parsed.version : 0;
+  if (version > HISTORY_VERSION) {
+    throw new BackupError("newerVersion", "Backup was made by a newer version of the app");
+  }
+  const raw = parsed.records.map((r) => fromExported(r as Record<string, unknown>));
+  const records = upgradeRecords(raw, version);
+  return {
+    records,
+    settings: parsed.settings
+      ? upgradeSettings(parsed.settings, typeof parsed.settingsVersion === "number" ? parsed.settingsVersion : 0)
+      : undefined,
+    plan: parsed.plan !== undefined ? sanitizePlan(parsed.plan) : undefined,
+    goals: parsed.goals !== undefined ? sanitizeGoals(parsed.goals) : undefined,
+    breaks: parsed.breaks !== undefined ? sanitizeBreaks(parsed.breaks) : undefined,
+    purchases: parsed.purchases !== undefined ? sanitizePurchases(parsed.purchases) : undefined,
+    invalid: raw.length - records.length,
+  };
+};
+
+// Throws a BackupError when the file can't be used.
+export const parseBackup = (text: string, fileName: string): ParsedBackup =>
+  fileName.toLowerCase().endsWith(".csv") ? fromCSV(text) : fromJSON(text);
+
+// Records from `incoming` whose id isn't already present, merged newest first.
+export const mergeRecords = (existing: SmokeRecord[], incoming: SmokeRecord[]) => {
+  const ids = new Set(existing.map((r) => r.id));
+  const added = incoming.filter((r) => !ids.has(r.id) && ids.add(r.id));
+  return {
+    records: [...existing, ...added].sort((a, b) => b.timestamp - a.timestamp),
+    added: added.length,
+  };
+};
+
+// Dedupe a list on its own, keeping the first occurrence of each id.
+export const dedupeRecords = (records: SmokeRecord[]) => mergeRecords([], records).records;
+
+export const downloadFile = (fileName: string, content: string | Blob, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to outlive it
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
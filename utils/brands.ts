@@ -0,0 +1,144 @@
+import type React from "react";
+import { Brand, BrandAppearance, FilterTexture, SmokeRecord, StickType } from "../types";
+import { BRANDS, STICK_TYPES } from "../constants";
+
+const BRANDS_KEY = "smoke_brands";
+
+// Lighten (amount > 0) or darken (amount < 0) a #rrggbb colour.
+export const shade = (hex: string, amount: number) => {
+  const n = parseInt(hex.replace("#", ""), 16);
+  const channel = (c: number) => {
+    const v = amount > 0 ? c + (255 - c) * amount : c * (1 + amount);
+    return Math.round(Math.min(255, Math.max(0, v)));
+  };
+  const r = channel((n >> 16) & 0xff);
+  const g = channel((n >> 8) & 0xff);
+  const b = channel(n & 0xff);
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, "0")}`;
+};
+
+export const stickTypeOf = (brand: Brand): StickType =>
+  brand.stickType ?? (brand.widthClass === "w-6" ? "slim" : "regular");
+
+export const stickSpec = (brand: Brand) => STICK_TYPES[stickTypeOf(brand)];
+
+// The brand a record was made with, which may have been renamed since.
+export const recordBrand = (brands: Brand[], record: SmokeRecord) =>
+  record.brandId !== undefined ? brands.find((b) => b.id === record.brandId) : brands.find((b) => b.name === record.brandName);
+
+// Time to burn the whole stick in auto mode.
+export const burnDuration = (brand: Brand) => brand.burnMs ?? stickSpec(brand).burnMs;
+
+// Turn an editable appearance into the style fields Cigarette3D renders. The colours are picked
+// freely, so they go inline: the build only generates the classes it finds in the source.
+export const styleFromAppearance = (a: BrandAppearance, stickType: StickType) => {
+  const gradient = `linear-gradient(to right, ${shade(a.filterColor, -0.4)} 0%, ${a.filterColor} 40%, ${shade(a.filterColor, -0.5)} 100%)`;
+  const filterStyle: React.CSSProperties =
+    a.filterTexture === "cork"
+      ? {
+          background: `radial-gradient(circle at 2px 2px, rgba(0,0,0,0.1) 1px, transparent 1px), ${gradient}`,
+          backgroundSize: "6px 6px, 100% 100%",
+        }
+      : a.filterTexture === "striped"
+        ? {
+            background: `repeating-linear-gradient(0deg, rgba(0,0,0,0.15) 0px, rgba(0,0,0,0.15) 2px, transparent 2px, transparent 8px), ${gradient}`,
+          }
+        : { background: gradient };
+
+  return {
+    filterColorClass: "",
+    filterStyle,
+    bodyColor: "",
+    bodyStyle: { background: `linear-gradient(to right, ${shade(a.bodyColor, -0.15)}, ${a.bodyColor}, ${shade(a.bodyColor, -0.2)})` },
+    textColor: "",
+    textStyle: { color: a.textColor },
+    widthClass: STICK_TYPES[stickType].widthClass,
+    ringColor: undefined,
+    ringStyle: a.ringColor ? { background: a.ringColor } : undefined,
+  };
+};
+
+// --- Validation ---
+
+const FILTER_TEXTURES: FilterTexture[] = ["plain", "cork", "striped"];
+
+const isHex = (v: unknown): v is string => typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v);
+const isText = (v: unknown): v is string => typeof v === "string";
+const isAmount = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v >= 0;
+const isStyle = (v: unknown): v is React.CSSProperties => !!v && typeof v === "object";
+
+// Editor brands used to be styled with classes like from-[#7c4f2a], which only the runtime
+// Tailwind could generate. Those get their inline styles from the appearance again.
+const BUILT_IN_BODIES = new Set(BRANDS.map((b) => b.bodyColor));
+const hasRuntimeClasses = (b: Brand) => !!b.appearance && !b.bodyStyle && !BUILT_IN_BODIES.has(b.bodyColor);
+
+const sanitizeAppearance = (raw: unknown): BrandAppearance | undefined => {
+  const a = raw as Partial<BrandAppearance> | null;
+  if (!a || typeof a !== "object") return undefined;
+  if (!isHex(a.filterColor) || !isHex(a.bodyColor) || !isHex(a.textColor)) return undefined;
+  if (!FILTER_TEXTURES.includes(a.filterTexture as FilterTexture) || typeof a.slim !== "boolean") return undefined;
+  return {
+    filterColor: a.filterColor,
+    filterTexture: a.filterTexture as FilterTexture,
+    bodyColor: a.bodyColor,
+    textColor: a.textColor,
+    slim: a.slim,
+    ringColor: isHex(a.ringColor) ? a.ringColor : undefined,
+  };
+};
+
+// The rendering fields are required; optional ones are dropped when they don't fit.
+const sanitizeBrand = (raw: unknown): Brand | null => {
+  const b = raw as Partial<Brand> | null;
+  if (!b || typeof b !== "object") return null;
+  if (!isText(b.id) || !isText(b.name) || !b.name.trim() || !isAmount(b.pricePerStick)) return null;
+  if (![b.filterColorClass, b.bodyColor, b.textColor, b.widthClass].every(isText)) return null;
+  const byPack = isAmount(b.packPrice) && Number.isInteger(b.packSize) && b.packSize! > 0;
+  const brand: Brand = {
+    id: b.id,
+    name: b.name,
+    subName: isText(b.subName) ? b.subName : "",
+    pricePerStick: b.pricePerStick,
+    packPrice: byPack ? b.packPrice : undefined,
+    packSize: byPack ? b.packSize : undefined,
+    filterColorClass: b.filterColorClass!,
+    filterStyle: isStyle(b.filterStyle) ? b.filterStyle : undefined,
+    bodyColor: b.bodyColor!,
+    bodyStyle: isStyle(b.bodyStyle) ? b.bodyStyle : undefined,
+    textColor: b.textColor!,
+    textStyle: isStyle(b.textStyle) ? b.textStyle : undefined,
+    widthClass: b.widthClass!,
+    ringColor: isText(b.ringColor) ? b.ringColor : undefined,
+    ringStyle: isStyle(b.ringStyle) ? b.ringStyle : undefined,
+    appearance: sanitizeAppearance(b.appearance),
+    stickType: b.stickType && b.stickType in STICK_TYPES ? b.stickType : undefined,
+    burnMs: typeof b.burnMs === "number" && b.burnMs > 0 ? b.burnMs : undefined,
+    custom: b.custom === true ? true : undefined,
+  };
+  return hasRuntimeClasses(brand) ? { ...brand, ...styleFromAppearance(brand.appearance!, stickTypeOf(brand)) } : brand;
+};
+
+// --- Storage ---
+
+// Without a stored list the built-in brands are used, including ones added in later versions.
+export const loadBrands = (): Brand[] => {
+  try {
+    const saved = localStorage.getItem(BRANDS_KEY);
+    if (!saved) return BRANDS;
+    const parsed: unknown = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return BRANDS;
+    const brands = parsed.map(sanitizeBrand).filter((b): b is Brand => b !== null);
+    return brands.length > 0 ? brands : BRANDS;
+  } catch {
+    return BRANDS;
+  }
+};
+
+export const saveBrands = (brands: Brand[]) => {
+  localStorage.setItem(BRANDS_KEY, JSON.stringify(brands));
+};
+
+export const resetBrands = () => {
+  localStorage.removeItem(BRANDS_KEY);
+  return BRANDS;
+};
@@ -0,0 +1,65 @@
+import { BreakRecord, BreakType } from "../types";
+
+export const BREAK_TYPES: BreakType[] = ["walk", "stretch", "water", "air"];
+
+const startOfDay = (t: number) => {
+  const d = new Date(t);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+export const breakEnd = (b: BreakRecord) => b.timestamp + b.durationMs;
+
+// Time focused since the last break ended. Counting starts fresh each day so the night
+// doesn't show up as focus; null before the first break of the day.
+export const focusSince = (breaks: BreakRecord[], now = Date.now()): number | null => {
+  const last = breaks.reduce<BreakRecord | null>((latest, b) => (!latest || b.timestamp > latest.timestamp ? b : latest), null);
+  if (!last || startOfDay(breakEnd(last)) !== startOfDay(now)) return null;
+  return Math.max(0, now - breakEnd(last));
+};
+
+export interface BreakStats {
+  today: number;
+  perDay: number; // average over days with at least one break
+  averageMs: number | null;
+  longestFocusMs: number | null; // longest stretch between two breaks on the same day
+}
+
+export const breakStats = (breaks: BreakRecord[], now = Date.now()): BreakStats => {
+  const today = startOfDay(now);
+  const days = new Set(breaks.map((b) => startOfDay(b.timestamp)));
+  const sorted = [...breaks].sort((a, b) => a.timestamp - b.timestamp);
+
+  let longestFocusMs: number | null = null;
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    if (startOfDay(previous.timestamp) !== startOfDay(sorted[i].timestamp)) continue;
+    const gap = sorted[i].timestamp - breakEnd(previous);
+    if (longestFocusMs === null || gap > longestFocusMs) longestFocusMs = gap;
+  }
+
+  return {
+    today: breaks.filter((b) => startOfDay(b.timestamp) === today).length,
+    perDay: days.size > 0 ? breaks.length / days.size : 0,
+    averageMs: breaks.length > 0 ? breaks.reduce((acc, b) => acc + b.durationMs, 0) / breaks.length : null,
+    longestFocusMs,
+  };
+};
+
+// Breaks per day for the last `size` days, oldest first.
+export const dailyBreaks = (breaks: BreakRecord[], size: number, now = Date.now()) => {
+  const today = startOfDay(now);
+  return Array.from({ length: size }, (_, i) => {
+    // Step by calendar day so DST changes don't shift the buckets
+    const d = new Date(today);
+    d.setDate(d.getDate() - (size - 1 - i));
+    const start = d.getTime();
+    return { start: d, count: breaks.filter((b) => startOfDay(b.timestamp) === start).length };
+  });
+};
+
+// How many breaks of each type, most common first.
+export const breakTypeCounts = (breaks: BreakRecord[]) =>
+  BREAK_TYPES
+    .map((type) => ({ type, count: breaks.filter((b) => b.type === type).length }))
+    .filter((c) => c.count > 0)
+    .sort((a, b) => b.count - a.count);
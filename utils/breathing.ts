@@ -0,0 +1,71 @@
+import { BreathingPatternId } from "../types";
+
+export type BreathPhase = "inhale" | "hold" | "exhale" | "rest";
+
+// Display names live in the locale catalogs under "breath.pattern.<id>"
+export interface BreathingPattern {
+  id: BreathingPatternId;
+  steps: { phase: BreathPhase; seconds: number }[];
+}
+
+export const BREATHING_PATTERNS: BreathingPattern[] = [
+  {
+    id: "simple",
+    steps: [
+      { phase: "inhale", seconds: 4 },
+      { phase: "exhale", seconds: 4 },
+    ],
+  },
+  {
+    id: "478",
+    steps: [
+      { phase: "inhale", seconds: 4 },
+      { phase: "hold", seconds: 7 },
+      { phase: "exhale", seconds: 8 },
+    ],
+  },
+  {
+    id: "box",
+    steps: [
+      { phase: "inhale", seconds: 4 },
+      { phase: "hold", seconds: 4 },
+      { phase: "exhale", seconds: 4 },
+      { phase: "rest", seconds: 4 },
+    ],
+  },
+];
+
+export interface BreathState {
+  phase: BreathPhase;
+  phaseProgress: number; // 0..1 within the current phase
+  secondsLeft: number; // whole seconds left in the current phase
+  cycles: number; // completed full cycles
+}
+
+export const getBreathingPattern = (id: BreathingPatternId) =>
+  BREATHING_PATTERNS.find((p) => p.id === id);
+
+// Where in the pattern we are after `elapsedMs` of breathing.
+export const getBreathState = (pattern: BreathingPattern, elapsedMs: number): BreathState => {
+  const cycleMs = pattern.steps.reduce((acc, s) => acc + s.seconds * 1000, 0);
+  const elapsed = Math.max(0, elapsedMs);
+  const cycles = Math.floor(elapsed / cycleMs);
+  let offset = elapsed - cycles * cycleMs;
+
+  for (const step of pattern.steps) {
+    const stepMs = step.seconds * 1000;
+    if (offset < stepMs) {
+      return {
+        phase: step.phase,
+        phaseProgress: offset / stepMs,
+        secondsLeft: Math.ceil((stepMs - offset) / 1000),
+        cycles,
+      };
+    }
+    offset -= stepMs;
+  }
+
+  // Unreachable for non-empty patterns; keeps the return type total
+  const last = pattern.steps[pattern.steps.length - 1];
+  return { phase: last.phase, phaseProgress: 1, secondsLeft: 0, cycles };
+};
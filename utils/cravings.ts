@@ -0,0 +1,68 @@
+import { SmokeRecord } from "../types";
+import type { I18n } from "./i18n";
+
+export const DEFAULT_TRIGGERS = ["stress", "coffee", "after meal", "boredom", "meeting"];
+
+// Built-in tags are stored in English and translated for display; custom ones are shown as typed.
+export const triggerLabel = (i18n: I18n, trigger: string) => {
+  const key = `trigger.${trigger}`;
+  return i18n.has(key) ? i18n.t(key) : trigger;
+};
+
+export interface CravingEntry {
+  intensity: number; // 1..10
+  triggers: string[];
+}
+
+export interface TriggerStat {
+  trigger: string;
+  count: number;
+  // Sessions per part of the day, indexed like TIME_OF_DAY
+  byTimeOfDay: number[];
+}
+
+export const TIME_OF_DAY = ["night", "morning", "afternoon", "evening"] as const;
+
+// 0-5 night, 6-11 morning, 12-17 afternoon, 18-23 evening
+export const timeOfDay = (timestamp: number) => Math.floor(new Date(timestamp).getHours() / 6);
+
+export const triggerStats = (records: SmokeRecord[]): TriggerStat[] => {
+  const stats = new Map<string, TriggerStat>();
+  for (const r of records) {
+    for (const trigger of r.triggers ?? []) {
+      const stat = stats.get(trigger) ?? { trigger, count: 0, byTimeOfDay: [0, 0, 0, 0] };
+      stat.count += 1;
+      stat.byTimeOfDay[timeOfDay(r.timestamp)] += 1;
+      stats.set(trigger, stat);
+    }
+  }
+  return [...stats.values()].sort((a, b) => b.count - a.count);
+};
+
+export interface CravingDrop {
+  sessions: number; // sessions with both a before and an after rating
+  averageBefore: number;
+  averageAfter: number;
+  averageDrop: number;
+}
+
+export const cravingDrop = (records: SmokeRecord[]): CravingDrop | null => {
+  const rated = records.filter((r) => r.cravingBefore !== undefined && r.cravingAfter !== undefined);
+  if (rated.length === 0) return null;
+  const before = rated.reduce((acc, r) => acc + r.cravingBefore!, 0) / rated.length;
+  const after = rated.reduce((acc, r) => acc + r.cravingAfter!, 0) / rated.length;
+  return { sessions: rated.length, averageBefore: before, averageAfter: after, averageDrop: before - after };
+};
+
+// Average craving before a session, per hour of day; null where nothing was rated.
+export const cravingByHour = (records: SmokeRecord[]) => {
+  const sums = new Array<number>(24).fill(0);
+  const counts = new Array<number>(24).fill(0);
+  for (const r of records) {
+    if (r.cravingBefore === undefined) continue;
+    const h = new Date(r.timestamp).getHours();
+    sums[h] += r.cravingBefore;
+    counts[h] += 1;
+  }
+  return sums.map((sum, h) => (counts[h] > 0 ? sum / counts[h] : null));
+};
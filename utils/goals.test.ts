@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { SavingsGoal, SmokeRecord } from "../types";
+import { activeGoals, addSavings, completedGoals, estimateCompletions, focusGoal, rebalanceGoals, savingPace } from "./goals";
+import { deleteRecords, editRecord } from "./history";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_800_000_000_000;
+
+const goal = (id: string, target: number, saved = 0, completedAt?: number): SavingsGoal =>
+  ({ id, name: id, target, saved, createdAt: 0, completedAt });
+
+const virtual = (id: number, timestamp: number, savedAmount: number): SmokeRecord =>
+  ({ id, kind: "virtual", date: "", timestamp, brandName: "A", savedAmount });
+
+describe("addSavings", () => {
+  it("funds the current goal and spills over to the next", () => {
+    const { goals, completed, funded } = addSavings([goal("a", 10, 9), goal("b", 10)], 3, NOW);
+    expect(goals.map((g) => g.saved)).toEqual([10, 2]);
+    expect(goals[0].completedAt).toBe(NOW);
+    expect(completed.map((g) => g.id)).toEqual(["a"]);
+    expect(funded).toEqual([{ goalId: "a", amount: 1 }, { goalId: "b", amount: 2 }]);
+  });
+
+  it("skips archived goals", () => {
+    const { goals, funded } = addSavings([goal("done", 5, 5, 1), goal("b", 10)], 1, NOW);
+    expect(goals[0].saved).toBe(5);
+    expect(funded).toEqual([{ goalId: "b", amount: 1 }]);
+  });
+
+  it("treats a goal a fraction of a cent short as reached", () => {
+    const { completed } = addSavings([goal("a", 0.3)], 0.1 + 0.2 - 0.001, NOW);
+    expect(completed).toHaveLength(1);
+  });
+
+  it("leaves the goals alone with nothing to add", () => {
+    const goals = [goal("a", 10, 1)];
+    expect(addSavings(goals, 0, NOW)).toEqual({ goals, completed: [], funded: [] });
+  });
+});
+
+describe("rebalanceGoals", () => {
+  // A session saving `amount`, funded the way the app funds it when the session ends
+  const session = (goals: SavingsGoal[], id: number, amount: number) => {
+    const added = addSavings(goals, amount, NOW);
+    return { goals: added.goals, record: { ...virtual(id, NOW, amount), funded: added.funded } };
+  };
+
+  it("takes a deleted record's funding back out of its goal", () => {
+    const first = session([goal("a", 10)], 1, 3);
+    const second = session(first.goals, 2, 2);
+    const history = [second.record, first.record];
+    const result = rebalanceGoals(second.goals, history, deleteRecords(history, new Set([1])), NOW);
+    expect(result.goals[0].saved).toBe(2);
+  });
+
+  it("leaves the goals alone when a record from before them is deleted", () => {
+    const old = virtual(1, NOW - DAY_MS, 5);
+    const later = session([goal("a", 10)], 2, 2);
+    const history = [later.record, old];
+    const result = rebalanceGoals(later.goals, history, [later.record], NOW);
+    expect(result.goals[0].saved).toBe(2);
+  });
+
+  it("never takes money from an active goal for a record that funded a reached one", () => {
+    const first = session([goal("a", 3), goal("b", 10)], 1, 3);
+    expect(first.goals[0].completedAt).toBe(NOW);
+    const second = session(first.goals, 2, 4);
+    const history = [second.record, first.record];
+    const result = rebalanceGoals(second.goals, history, [second.record], NOW);
+    expect(result.goals.map((g) => g.saved)).toEqual([3, 4]);
+  });
+
+  it("puts an undone delete back where it came from, no more", () => {
+    const first = session([goal("a", 10)], 1, 3);
+    const history = [first.record];
+    const deleted = rebalanceGoals(first.goals, history, [], NOW);
+    expect(deleted.goals[0].saved).toBe(0);
+    const restored = rebalanceGoals(deleted.goals, [], history, NOW);
+    expect(restored.goals[0].saved).toBe(3);
+    expect(restored.records[0].funded).toEqual([{ goalId: "a", amount: 3 }]);
+  });
+
+  it("adds nothing back for a restored record that never funded a goal", () => {
+    const old = virtual(1, NOW - DAY_MS, 5);
+    const goals = [goal("a", 10, 2)];
+    expect(rebalanceGoals(goals, [], [old], NOW).goals[0].saved).toBe(2);
+  });
+
+  it("reports goals an undo completes", () => {
+    const first = session([goal("a", 5)], 1, 3);
+    const deleted = rebalanceGoals(first.goals, [first.record], [], NOW);
+    const second = session(deleted.goals, 2, 2);
+    const restored = rebalanceGoals(second.goals, [second.record], [second.record, first.record], NOW + 1);
+    expect(restored.goals[0]).toMatchObject({ saved: 5, completedAt: NOW + 1 });
+    expect(restored.completed.map((g) => g.id)).toEqual(["a"]);
+  });
+
+  it("moves a repriced record's difference in and out of the goals", () => {
+    const brands = [{ id: "cheap", name: "Cheap" }, { id: "dear", name: "Dear" }] as Parameters<typeof editRecord>[3];
+    const prices: Record<string, number> = { cheap: 1, dear: 3 };
+    const priceOf = (b: { id: string }) => prices[b.id];
+    const first = session([goal("a", 10)], 1, 1);
+    const history = [{ ...first.record, brandName: "Cheap" }];
+
+    const dearer = editRecord(history, 1, { brandName: "Dear", timestamp: NOW }, brands, priceOf);
+    const raised = rebalanceGoals(first.goals, history, dearer, NOW);
+    expect(raised.goals[0].saved).toBe(3);
+    expect(raised.records[0].funded).toEqual([{ goalId: "a", amount: 1 }, { goalId: "a", amount: 2 }]);
+
+    // Undoing the edit brings back the old record, and its extra funding goes back out
+    const undone = rebalanceGoals(raised.goals, raised.records, history, NOW);
+    expect(undone.goals[0].saved).toBe(1);
+    expect(undone.records[0].funded).toEqual([{ goalId: "a", amount: 1 }]);
+  });
+
+  it("keeps unchanged records as they are, so sync doesn't see them as edited", () => {
+    const first = session([goal("a", 10)], 1, 1);
+    const other = virtual(2, NOW, 1);
+    const history = [other, first.record];
+    const result = rebalanceGoals(first.goals, history, [other], NOW);
+    expect(result.records[0]).toBe(other);
+  });
+});
+
+describe("goal lists", () => {
+  const goals = [goal("a", 10), goal("old", 5, 5, 100), goal("b", 10), goal("older", 5, 5, 50)];
+
+  it("splits active and archived goals", () => {
+    expect(activeGoals(goals).map((g) => g.id)).toEqual(["a", "b"]);
+    expect(completedGoals(goals).map((g) => g.id)).toEqual(["old", "older"]);
+  });
+
+  it("moves a focused goal to the front", () => {
+    expect(focusGoal(goals, "b").map((g) => g.id)).toEqual(["b", "a", "old", "older"]);
+    expect(focusGoal(goals, "missing")).toBe(goals);
+  });
+});
+
+describe("estimates", () => {
+  it("averages virtual savings over the last two weeks", () => {
+    const history = [virtual(1, NOW - DAY_MS, 14), virtual(2, NOW - 20 * DAY_MS, 100), { ...virtual(3, NOW, 0), kind: "real" as const }];
+    expect(savingPace(history, NOW)).toBe(1);
+  });
+
+  it("funds the goals one after another at the pace", () => {
+    const estimates = estimateCompletions([goal("a", 10, 5), goal("b", 10)], 1, NOW);
+    expect(estimates.get("a")).toBe(NOW + 5 * DAY_MS);
+    expect(estimates.get("b")).toBe(NOW + 15 * DAY_MS);
+  });
+
+  it("has no estimate without a pace", () => {
+    expect(estimateCompletions([goal("a", 10)], 0, NOW).get("a")).toBeNull();
+  });
+});
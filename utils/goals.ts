@@ -0,0 +1,146 @@
+import { GoalFunding, SavingsGoal, SmokeRecord } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PACE_DAYS = 14;
+
+// Active goals in the order they're funded; the first one is the current goal.
+export const activeGoals = (goals: SavingsGoal[]) => goals.filter((g) => g.completedAt === undefined);
+
+// Archived goals, most recently finished first.
+export const completedGoals = (goals: SavingsGoal[]) =>
+  goals.filter((g) => g.completedAt !== undefined).sort((a, b) => b.completedAt! - a.completedAt!);
+
+// Rounding can leave a fraction of a cent between saved and target
+const isReached = (g: SavingsGoal) => g.saved >= g.target - 0.005;
+
+// Put `amount` into the current goal; whatever a goal doesn't need spills over to the next.
+// `funded` is what each goal got, for the record the money came from to keep.
+export const addSavings = (goals: SavingsGoal[], amount: number, now = Date.now()) => {
+  let left = amount;
+  const completed: SavingsGoal[] = [];
+  const funded: GoalFunding[] = [];
+  const updated = goals.map((g) => {
+    if (g.completedAt !== undefined || left <= 0) return g;
+    const take = Math.min(left, g.target - g.saved);
+    left -= take;
+    if (take > 0) funded.push({ goalId: g.id, amount: take });
+    const next: SavingsGoal = { ...g, saved: g.saved + take };
+    if (isReached(next)) {
+      next.completedAt = now;
+      completed.push(next);
+    }
+    return next;
+  });
+  return { goals: updated, completed, funded };
+};
+
+const SETTLED = 0.005; // funding left below half a cent is dropped
+
+// Take up to `amount` of a record's funding back out of the goals it went to, the last funded
+// first. Archived goals keep what they reached. `funded` is what the record still put in.
+const withdrawFunding = (goals: SavingsGoal[], funded: GoalFunding[], amount = Infinity) => {
+  const byId = new Map(goals.map((g) => [g.id, g]));
+  const kept: GoalFunding[] = [];
+  let left = amount;
+  for (const f of [...funded].reverse()) {
+    const g = byId.get(f.goalId);
+    const take = g && g.completedAt === undefined ? Math.min(left, f.amount, g.saved) : 0;
+    if (g && take > 0) {
+      byId.set(g.id, { ...g, saved: Math.max(0, g.saved - take) });
+      left -= take;
+    }
+    if (f.amount - take > SETTLED) kept.unshift({ ...f, amount: f.amount - take });
+  }
+  return { goals: goals.map((g) => byId.get(g.id)!), funded: kept };
+};
+
+// Put a restored record's funding back into the goals it came from, as far as they're still
+// active and short of their target.
+const restoreFunding = (goals: SavingsGoal[], funded: GoalFunding[], now: number) => {
+  const byId = new Map(goals.map((g) => [g.id, g]));
+  const kept: GoalFunding[] = [];
+  const completed: SavingsGoal[] = [];
+  for (const f of funded) {
+    const g = byId.get(f.goalId);
+    const give = g && g.completedAt === undefined ? Math.min(f.amount, g.target - g.saved) : 0;
+    if (!g || give <= SETTLED) continue;
+    const next: SavingsGoal = { ...g, saved: g.saved + give };
+    if (isReached(next)) {
+      next.completedAt = now;
+      completed.push(next);
+    }
+    byId.set(g.id, next);
+    kept.push({ ...f, amount: give });
+  }
+  return { goals: goals.map((g) => byId.get(g.id)!), funded: kept, completed };
+};
+
+const withFunding = (record: SmokeRecord, funded: GoalFunding[]): SmokeRecord => ({ ...record, funded: funded.length > 0 ? funded : undefined });
+
+// After records are edited, deleted or restored, move their savings into or out of the goals
+// they funded. Records carry what they put in, so a record from before a goal existed or one
+// that funded a goal since reached never touches the active goals. Returns the records with
+// their funding brought up to date and the goals the change completed.
+export const rebalanceGoals = (goals: SavingsGoal[], before: SmokeRecord[], after: SmokeRecord[], now = Date.now()) => {
+  const old = new Map(before.map((r) => [r.id, r]));
+  const kept = new Set(after.map((r) => r.id));
+  const completed: SavingsGoal[] = [];
+  let updated = goals;
+
+  for (const r of before) {
+    if (!kept.has(r.id) && r.funded) updated = withdrawFunding(updated, r.funded).goals;
+  }
+
+  const records = after.map((r) => {
+    const previous = old.get(r.id);
+    // Back from an undo, with the funding it had when it was deleted
+    if (!previous) {
+      if (!r.funded) return r;
+      const restored = restoreFunding(updated, r.funded, now);
+      updated = restored.goals;
+      completed.push(...restored.completed);
+      return withFunding(r, restored.funded);
+    }
+    // An undone edit brings back the old object, so the funding to adjust is always the current one
+    const funded = previous.funded ?? [];
+    const delta = Math.round((r.savedAmount - previous.savedAmount) * 100) / 100;
+    if (delta < 0) {
+      const withdrawn = withdrawFunding(updated, funded, -delta);
+      updated = withdrawn.goals;
+      return withFunding(r, withdrawn.funded);
+    }
+    if (delta > 0) {
+      const added = addSavings(updated, delta, now);
+      updated = added.goals;
+      completed.push(...added.completed);
+      return withFunding(r, [...funded, ...added.funded]);
+    }
+    return r.funded === previous.funded ? r : withFunding(r, funded);
+  });
+
+  return { goals: updated, records, completed };
+};
+
+// Move a goal to the front so it's funded first.
+export const focusGoal = (goals: SavingsGoal[], id: string) => {
+  const goal = goals.find((g) => g.id === id);
+  return goal ? [goal, ...goals.filter((g) => g.id !== id)] : goals;
+};
+
+// Average saved per day over the last two weeks; 0 with nothing saved in that time.
+export const savingPace = (history: SmokeRecord[], now = Date.now()) => {
+  const since = now - PACE_DAYS * DAY_MS;
+  const saved = history.reduce((acc, r) => (r.kind === "virtual" && r.timestamp >= since ? acc + r.savedAmount : acc), 0);
+  return saved / PACE_DAYS;
+};
+
+// When each active goal should be reached at `pace`, funding them one after another as addSavings does.
+export const estimateCompletions = (goals: SavingsGoal[], pace: number, now = Date.now()) => {
+  const estimates = new Map<string, number | null>();
+  let needed = 0;
+  for (const g of activeGoals(goals)) {
+    needed += g.target - g.saved;
+    estimates.set(g.id, pace > 0 ? now + (needed / pace) * DAY_MS : null);
+  }
+  return estimates;
+};
@@ -0,0 +1,17 @@
+import { AppSettings } from "../types";
+
+// Vibration patterns in ms (on, off, on, ...). Phones without the Vibration API just skip them.
+export const HAPTICS = {
+  light: [30, 60, 80],
+  puff: [15],
+  breath: [10],
+  finish: [60, 80, 60, 80, 160],
+};
+
+export type Haptic = keyof typeof HAPTICS;
+
+// Haptics ignore the quiet hours: they make no sound.
+export const vibrate = (settings: AppSettings, haptic: Haptic) => {
+  if (!settings.feedbackEffects.includes("haptics") || !("vibrate" in navigator)) return;
+  navigator.vibrate(HAPTICS[haptic]);
+};
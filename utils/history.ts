@@ -0,0 +1,67 @@
+import { Brand, RecordKind, SmokeRecord } from "../types";
+import { dayKey } from "./stats";
+
+// Searching and editing the record list in the History modal. Pure: every function
+// returns a new list, newest first like the stored history.
+
+export interface HistoryFilter {
+  kind: RecordKind | "all";
+  query: string; // brand name, case-insensitive substring
+  from: string; // "2026-01-31", inclusive; "" for no limit
+  to: string;
+}
+
+export const EMPTY_FILTER: HistoryFilter = { kind: "all", query: "", from: "", to: "" };
+
+export const filterRecords = (records: SmokeRecord[], filter: HistoryFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  return records.filter((r) => {
+    if (filter.kind !== "all" && r.kind !== filter.kind) return false;
+    if (query && !r.brandName.toLowerCase().includes(query)) return false;
+    const day = dayKey(new Date(r.timestamp));
+    return (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to);
+  });
+};
+
+export interface DayGroup {
+  key: string;
+  records: SmokeRecord[];
+}
+
+// Consecutive records on the same local day, in the list's order.
+export const groupByDay = (records: SmokeRecord[]): DayGroup[] => {
+  const groups: DayGroup[] = [];
+  for (const r of records) {
+    const key = dayKey(new Date(r.timestamp));
+    const last = groups[groups.length - 1];
+    if (last?.key === key) last.records.push(r);
+    else groups.push({ key, records: [r] });
+  }
+  return groups;
+};
+
+const newestFirst = (records: SmokeRecord[]) => [...records].sort((a, b) => b.timestamp - a.timestamp);
+
+export interface RecordEdit {
+  brandName: string;
+  timestamp: number;
+}
+
+// A different known brand reprices the record at that brand's current price: a partial
+// session keeps its share of it.
+export const editRecord = (records: SmokeRecord[], id: number, edit: RecordEdit, brands: Brand[], priceOf: (brand: Brand) => number) =>
+  newestFirst(records.map((r) => {
+    if (r.id !== id) return r;
+    const updated = { ...r, brandName: edit.brandName, timestamp: edit.timestamp, date: new Date(edit.timestamp).toLocaleString() };
+    const brand = edit.brandName !== r.brandName ? brands.find((b) => b.name === edit.brandName) : undefined;
+    if (brand) {
+      updated.brandId = brand.id;
+      const price = priceOf(brand);
+      updated.pricePerStick = price;
+      if (r.kind === "real") updated.spentAmount = price;
+      else updated.savedAmount = Math.round(price * (r.burned ?? 1) * 100) / 100;
+    }
+    return updated;
+  }));
+
+export const deleteRecords = (records: SmokeRecord[], ids: Set<number>) => records.filter((r) => !ids.has(r.id));
@@ -0,0 +1,89 @@
+import { createContext, useContext } from "react";
+import { AppSettings, Locale } from "../types";
+import { DEFAULT_SETTINGS } from "../constants";
+import { en, MessageKey } from "../locales/en";
+import { zhCN } from "../locales/zh-CN";
+
+export type { MessageKey };
+
+// --- Catalogs ---
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { "zh-CN": zhCN, en };
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "zh-CN", label: "简体中文" },
+  { id: "en", label: "English" },
+];
+
+export const CURRENCIES = ["CNY", "HKD", "TWD", "USD", "EUR", "GBP", "JPY", "SGD", "AUD", "CAD"];
+
+// First browser language we have a catalog for; English otherwise.
+export const detectLocale = (): Locale => {
+  const languages = typeof navigator === "undefined" ? [] : navigator.languages ?? [navigator.language];
+  for (const language of languages) {
+    const lower = language.toLowerCase();
+    if (lower.startsWith("zh")) return "zh-CN";
+    if (lower.startsWith("en")) return "en";
+  }
+  return "en";
+};
+
+export const resolveLocale = (setting: AppSettings["locale"]): Locale =>
+  setting === "auto" ? detectLocale() : setting;
+
+// --- Formatting ---
+
+export const formatMoney = (locale: Locale, currency: string, amount: number, signed = false) =>
+  new Intl.NumberFormat(locale, { style: "currency", currency, signDisplay: signed ? "exceptZero" : "auto" }).format(amount);
+
+const interpolate = (template: string, params?: Record<string, string | number>) =>
+  params ? template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : template;
+
+export interface I18n {
+  locale: Locale;
+  currency: string;
+  currencySymbol: string;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  has: (key: string) => key is MessageKey;
+  money: (amount: number, signed?: boolean) => string;
+  number: (value: number, fractionDigits?: number) => string;
+  date: (value: number | Date, options: Intl.DateTimeFormatOptions) => string;
+  // "3d 4h", "2h 15m", "12m"; with seconds precision "1m 5s", "40s"
+  duration: (ms: number, precision?: "m" | "s") => string;
+}
+
+export const createI18n = (locale: Locale, currency: string): I18n => {
+  const catalog = CATALOGS[locale];
+  const t: I18n["t"] = (key, params) => interpolate(catalog[key] ?? en[key] ?? key, params);
+  const symbol = new Intl.NumberFormat(locale, { style: "currency", currency })
+    .formatToParts(0)
+    .find((p) => p.type === "currency")?.value ?? currency;
+
+  return {
+    locale,
+    currency,
+    currencySymbol: symbol,
+    t,
+    has: (key): key is MessageKey => key in catalog,
+    money: (amount, signed) => formatMoney(locale, currency, amount, signed),
+    number: (value, fractionDigits) =>
+      new Intl.NumberFormat(locale, fractionDigits === undefined ? {} : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }).format(value),
+    date: (value, options) => new Intl.DateTimeFormat(locale, options).format(value),
+    duration: (ms, precision = "m") => {
+      const seconds = Math.max(0, Math.round(ms / 1000));
+      const minutes = Math.floor(seconds / 60);
+      const days = Math.floor(minutes / 1440);
+      const hours = Math.floor((minutes % 1440) / 60);
+      if (days > 0) return t("duration.dh", { d: days, h: hours });
+      if (hours > 0) return t("duration.hm", { h: hours, m: minutes % 60 });
+      if (precision === "m") return t("duration.m", { m: minutes });
+      return minutes > 0 ? t("duration.ms", { m: minutes, s: seconds % 60 }) : t("duration.s", { s: seconds });
+    },
+  };
+};
+
+// --- React ---
+
+export const I18nContext = createContext<I18n>(createI18n(resolveLocale(DEFAULT_SETTINGS.locale), DEFAULT_SETTINGS.currency));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,263 @@
+import { AppSettings, Locale, MessageProviderId, MessageTone } from "../types";
+import { formatMoney } from "./i18n";
+
+// --- Provider Interface ---
+
+export interface MessageContext {
+  savedAmount: number; // this session
+  totalSaved: number;
+  sessionCount: number; // virtual sessions including this one
+  streak: number; // days in a row
+  tone: MessageTone;
+  locale: Locale; // language of the message
+  currency: string;
+}
+
+export interface MessageProvider {
+  id: MessageProviderId;
+  getMessage: (context: MessageContext, signal: AbortSignal) => Promise<string>;
+}
+
+// --- Offline Library ---
+
+type Template = (c: MessageContext) => string;
+
+const money = (c: MessageContext, n: number) => formatMoney(c.locale, c.currency, n);
+
+const TEMPLATES: Record<Locale, Record<MessageTone, Template[]>> = {
+  "zh-CN": {
+    witty: [
+      (c) => `又省下${money(c, c.savedAmount)}，你的钱包在偷笑。`,
+      (c) => `累计${money(c, c.totalSaved)}，够买好几杯不伤肺的奶茶了。`,
+      () => `这一根只有空气，肺部表示毫无意见。`,
+      () => `烟灰缸今天又失业了。`,
+      (c) => `第${c.sessionCount}根虚拟烟，尼古丁公司股价应声下跌。`,
+      (c) => `${money(c, c.savedAmount)}进了你的口袋，而不是你的肺。`,
+      () => `深呼吸的是氧气，吐出去的是烦恼。`,
+    ],
+    gentle: [
+      (c) => `做得很好，这一根帮你留下了${money(c, c.savedAmount)}。`,
+      () => `每一次深呼吸，都是对自己的温柔。`,
+      (c) => `你已经累计省下${money(c, c.totalSaved)}，慢慢来，你做得很棒。`,
+      () => `休息一下是对的，身体会感谢你。`,
+      (c) => `第${c.sessionCount}次选择了更好的自己。`,
+    ],
+    coach: [
+      (c) => `+${money(c, c.savedAmount)}。保持节奏，下一根也这样替换。`,
+      (c) => `总计${money(c, c.totalSaved)}。目标明确，继续推进。`,
+      () => `戒断反应通常在几分钟内减弱，你刚刚撑过了一次。`,
+      () => `停止吸烟20分钟后，心率和血压就开始回落。`,
+      (c) => `已完成${c.sessionCount}次替换，习惯正在被改写。`,
+    ],
+  },
+  en: {
+    witty: [
+      (c) => `Another ${money(c, c.savedAmount)} saved. Your wallet is smirking.`,
+      (c) => `${money(c, c.totalSaved)} so far. That's a lot of lung-friendly coffee.`,
+      () => `Nothing but air in that one. Your lungs have no complaints.`,
+      () => `The ashtray is out of work again today.`,
+      (c) => `Virtual cigarette #${c.sessionCount}. Big Tobacco just flinched.`,
+      (c) => `${money(c, c.savedAmount)} went into your pocket instead of your lungs.`,
+      () => `Breathe in oxygen, breathe out the stress.`,
+    ],
+    gentle: [
+      (c) => `Well done. That one kept ${money(c, c.savedAmount)} in your pocket.`,
+      () => `Every deep breath is a small kindness to yourself.`,
+      (c) => `You've saved ${money(c, c.totalSaved)} so far. Take it slow, you're doing great.`,
+      () => `Taking a break was the right call. Your body will thank you.`,
+      (c) => `That's ${c.sessionCount} times you chose the better option.`,
+    ],
+    coach: [
+      (c) => `+${money(c, c.savedAmount)}. Keep the rhythm and swap the next one too.`,
+      (c) => `${money(c, c.totalSaved)} total. Clear goal, keep pushing.`,
+      () => `Cravings usually fade within minutes. You just outlasted one.`,
+      () => `20 minutes after quitting, heart rate and blood pressure start to drop.`,
+      (c) => `${c.sessionCount} swaps done. The habit is being rewritten.`,
+    ],
+  },
+};
+
+// Checked before the regular templates so milestones are never missed
+const MILESTONES: { when: (c: MessageContext) => boolean; text: Record<Locale, Template> }[] = [
+  {
+    when: (c) => c.sessionCount === 1,
+    text: { "zh-CN": () => `第一根虚拟烟完成！好的开始。`, en: () => `First virtual cigarette done! A great start.` },
+  },
+  {
+    when: (c) => [10, 50, 100, 200, 500, 1000].includes(c.sessionCount),
+    text: { "zh-CN": (c) => `里程碑：第${c.sessionCount}根虚拟烟！`, en: (c) => `Milestone: virtual cigarette #${c.sessionCount}!` },
+  },
+  {
+    when: (c) => c.streak > 1 && c.streak % 7 === 0,
+    text: {
+      "zh-CN": (c) => `连续${c.streak}天坚持，整整${c.streak / 7}周！`,
+      en: (c) => `${c.streak} days in a row, that's ${c.streak / 7} full week${c.streak === 7 ? "" : "s"}!`,
+    },
+  },
+  {
+    when: (c) => [100, 500, 1000, 5000].some((m) => c.totalSaved >= m && c.totalSaved - c.savedAmount < m),
+    text: {
+      "zh-CN": (c) => `累计省钱突破${money(c, Math.floor(c.totalSaved))}！`,
+      en: (c) => `Total savings just passed ${money(c, Math.floor(c.totalSaved))}!`,
+    },
+  },
+];
+
+const offlineMessages = (c: MessageContext) => {
+  const milestone = MILESTONES.find((m) => m.when(c));
+  return {
+    milestone: milestone ? milestone.text[c.locale](c) : null,
+    pool: TEMPLATES[c.locale][c.tone].map((t) => t(c)),
+  };
+};
+
+export const offlineProvider: MessageProvider = {
+  id: "offline",
+  getMessage: async (c) => {
+    const { milestone, pool } = offlineMessages(c);
+    return milestone ?? pool[Math.floor(Math.random() * pool.length)];
+  },
+};
+
+// --- Remote Providers ---
+
+const TONE_PROMPTS: Record<MessageTone, string> = {
+  witty: "a witty, slightly dark-humored smoking cessation assistant",
+  gentle: "a warm, gentle and encouraging smoking cessation companion",
+  coach: "a no-nonsense, fact-driven smoking cessation coach",
+};
+
+const PROMPT_LANGUAGES: Record<Locale, string> = { "zh-CN": "Simplified Chinese", en: "English" };
+
+const buildPrompt = (c: MessageContext) =>
+  `You are ${TONE_PROMPTS[c.tone]}. The user just finished a "virtual cigarette" instead of a real one, saving ${c.savedAmount.toFixed(2)} ${c.currency} ` +
+  `(${c.totalSaved.toFixed(2)} ${c.currency} over ${c.sessionCount} sessions, ${c.streak}-day streak). ` +
+  `Give them a very short (max 20 words), punchy fact about health or money they saved. Language: ${PROMPT_LANGUAGES[c.locale]}.`;
+
+export const createGeminiProvider = (apiKey: string): MessageProvider => ({
+  id: "gemini",
+  getMessage: async (c, signal) => {
+    if (!apiKey) throw new Error("No Gemini API key set");
+    // Loaded on demand so the offline default doesn't pay for the SDK
+    const { GoogleGenAI } = await import("@google/genai");
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: buildPrompt(c),
+      config: { abortSignal: signal },
+    });
+    const text = response.text?.trim();
+    if (!text) throw new Error("Empty response from Gemini");
+    return text;
+  },
+});
+
+// POST the context as JSON to `endpoint`, expect `{ "message": "..." }` back.
+export const createHttpProvider = (endpoint: string): MessageProvider => ({
+  id: "http",
+  getMessage: async (c, signal) => {
+    if (!endpoint) throw new Error("No message endpoint set");
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...c, prompt: buildPrompt(c) }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`Message endpoint returned ${response.status}`);
+    const data = await response.json();
+    if (typeof data?.message !== "string" || !data.message.trim()) throw new Error("Malformed message response");
+    return data.message.trim();
+  },
+});
+
+export const providerFor = (settings: AppSettings): MessageProvider => {
+  switch (settings.messageProvider) {
+    case "gemini": return createGeminiProvider(settings.geminiApiKey);
+    case "http": return createHttpProvider(settings.messageEndpoint);
+    default: return offlineProvider;
+  }
+};
+
+// --- Caching, Rate Limit, No-Repeat ---
+
+const STATE_KEY = "smoke_messages";
+const TIMEOUT_MS = 8000;
+const MIN_REMOTE_GAP_MS = 20 * 1000;
+const MAX_REMOTE_PER_HOUR = 20;
+const RECENT_LIMIT = 12; // messages not to repeat
+const CACHE_LIMIT = 30; // remote messages kept per provider, locale and tone
+
+interface MessageState {
+  recent: string[];
+  remoteCalls: number[];
+  cache: Record<string, string[]>; // "gemini:en:witty" -> messages
+}
+
+const loadState = (): MessageState => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STATE_KEY) ?? "null");
+    return {
+      recent: Array.isArray(raw?.recent) ? raw.recent : [],
+      remoteCalls: Array.isArray(raw?.remoteCalls) ? raw.remoteCalls : [],
+      cache: raw?.cache && typeof raw.cache === "object" ? raw.cache : {},
+    };
+  } catch {
+    return { recent: [], remoteCalls: [], cache: {} };
+  }
+};
+
+const saveState = (state: MessageState) => {
+  localStorage.setItem(STATE_KEY, JSON.stringify(state));
+};
+
+const withTimeout = async <T,>(run: (signal: AbortSignal) => Promise<T>, ms: number) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ms);
+  try {
+    return await run(controller.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const remember = (state: MessageState, message: string) => {
+  state.recent = [message, ...state.recent.filter((m) => m !== message)].slice(0, RECENT_LIMIT);
+  saveState(state);
+  return message;
+};
+
+// Remote providers are rate limited and time out; anything that fails or would repeat
+// a recent message falls back to cached remote messages, then to the offline library.
+export const getMotivationalMessage = async (settings: AppSettings, context: MessageContext): Promise<string> => {
+  const state = loadState();
+  const now = Date.now();
+  const fresh = (m: string) => !state.recent.includes(m);
+  const provider = providerFor(settings);
+  const cacheKey = `${provider.id}:${context.locale}:${context.tone}`;
+
+  if (provider.id !== "offline") {
+    state.remoteCalls = state.remoteCalls.filter((t) => t > now - 60 * 60 * 1000);
+    const lastCall = state.remoteCalls[state.remoteCalls.length - 1] ?? 0;
+    const allowed = now - lastCall >= MIN_REMOTE_GAP_MS && state.remoteCalls.length < MAX_REMOTE_PER_HOUR;
+
+    if (allowed) {
+      state.remoteCalls.push(now);
+      try {
+        const message = await withTimeout((signal) => provider.getMessage(context, signal), TIMEOUT_MS);
+        state.cache[cacheKey] = [message, ...(state.cache[cacheKey] ?? []).filter((m) => m !== message)].slice(0, CACHE_LIMIT);
+        if (fresh(message)) return remember(state, message);
+      } catch (error) {
+        console.error("Message provider failed, falling back", error);
+      }
+    }
+
+    const cached = (state.cache[cacheKey] ?? []).filter(fresh);
+    if (cached.length > 0) return remember(state, cached[Math.floor(Math.random() * cached.length)]);
+  }
+
+  const { milestone, pool } = offlineMessages(context);
+  if (milestone) return remember(state, milestone);
+  const candidates = pool.filter(fresh);
+  const choices = candidates.length > 0 ? candidates : pool;
+  return remember(state, choices[Math.floor(Math.random() * choices.length)]);
+};
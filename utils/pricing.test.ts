@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { Brand, PackPurchase, SmokeRecord } from "../types";
+import { effectivePrice, packSizeOf, packsNotBought } from "./pricing";
+
+const brand = (id: string, name: string, patch: Partial<Brand> = {}) =>
+  ({ id, name, pricePerStick: 1, packSize: 20, ...patch }) as Brand;
+
+const purchase = (id: number, brandId: string, price: number, packSize: number, date: string): PackPurchase =>
+  ({ id, brandId, price, packSize, date });
+
+const virtual = (id: number, patch: Partial<SmokeRecord>): SmokeRecord =>
+  ({ id, kind: "virtual", date: "", timestamp: id, brandName: "", savedAmount: 1, ...patch });
+
+describe("effectivePrice", () => {
+  const purchases = [purchase(2, "a", 30, 10, "2026-02-01"), purchase(1, "a", 20, 20, "2026-01-01"), purchase(3, "b", 99, 1, "2026-03-01")];
+
+  it("keeps the brand's own price without purchases", () => {
+    expect(effectivePrice(brand("c", "C", { pricePerStick: 1.5 }), purchases, "latest")).toBe(1.5);
+  });
+
+  it("uses the latest pack or the average per stick", () => {
+    expect(effectivePrice(brand("a", "A"), purchases, "latest")).toBe(3);
+    expect(effectivePrice(brand("a", "A"), purchases, "average")).toBe(1.67);
+  });
+});
+
+describe("packsNotBought", () => {
+  const brands = [brand("a", "Renamed", { packSize: 10 }), brand("b", "B")];
+
+  it("counts each record in packs of its brand, by the part that burned", () => {
+    const history = [virtual(1, { brandId: "a" }), virtual(2, { brandId: "b", burned: 0.5 }), { ...virtual(3, { brandId: "a" }), kind: "real" as const }];
+    expect(packsNotBought(history, brands, [])).toBeCloseTo(0.1 + 0.025);
+  });
+
+  it("finds a renamed brand by its id", () => {
+    expect(packsNotBought([virtual(1, { brandId: "a", brandName: "Old name" })], brands, [])).toBeCloseTo(0.1);
+  });
+
+  it("finds older records without a brand id by name", () => {
+    expect(packsNotBought([virtual(1, { brandName: "Renamed" })], brands, [])).toBeCloseTo(0.1);
+  });
+
+  it("follows the pack size of the latest purchase", () => {
+    expect(packSizeOf(brands[1], [purchase(1, "b", 10, 25, "2026-01-01")])).toBe(25);
+    expect(packsNotBought([virtual(1, { brandId: "b" })], brands, [purchase(1, "b", 10, 25, "2026-01-01")])).toBeCloseTo(0.04);
+  });
+});
@@ -0,0 +1,44 @@
+import { Brand, PackPurchase, PriceSource, SmokeRecord } from "../types";
+import { recordBrand } from "./brands";
+
+// Per-stick prices from the packs the user actually bought. A brand without
+// purchases keeps the price entered in the brand editor.
+
+const DEFAULT_PACK_SIZE = 20;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const stickPrice = (purchase: PackPurchase) => round(purchase.price / purchase.packSize);
+
+// A brand's purchases, oldest first.
+export const brandPurchases = (purchases: PackPurchase[], brandId: string) =>
+  purchases
+    .filter((p) => p.brandId === brandId)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id - b.id);
+
+// The latest pack's price, or every pack averaged by the sticks in it.
+export const effectivePrice = (brand: Brand, purchases: PackPurchase[], source: PriceSource) => {
+  const own = brandPurchases(purchases, brand.id);
+  if (own.length === 0) return brand.pricePerStick;
+  if (source === "latest") return stickPrice(own[own.length - 1]);
+  const spent = own.reduce((acc, p) => acc + p.price, 0);
+  const sticks = own.reduce((acc, p) => acc + p.packSize, 0);
+  return round(spent / sticks);
+};
+
+export const packSizeOf = (brand: Brand | undefined, purchases: PackPurchase[]) => {
+  if (!brand) return DEFAULT_PACK_SIZE;
+  const own = brandPurchases(purchases, brand.id);
+  return own.length > 0 ? own[own.length - 1].packSize : brand.packSize ?? DEFAULT_PACK_SIZE;
+};
+
+// Virtual sticks in packs of their brand; a partial session counts the part that burned.
+export const packsNotBought = (history: SmokeRecord[], brands: Brand[], purchases: PackPurchase[]) => {
+  const sizes = new Map(brands.map((b) => [b.id, packSizeOf(b, purchases)]));
+  return history
+    .filter((r) => r.kind === "virtual")
+    .reduce((acc, r) => {
+      const brand = recordBrand(brands, r);
+      return acc + (r.burned ?? 1) / ((brand && sizes.get(brand.id)) ?? DEFAULT_PACK_SIZE);
+    }, 0);
+};
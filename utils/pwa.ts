@@ -0,0 +1,67 @@
+// Page side of public/sw.js: registration, scheduling and messages.
+
+export type ServiceWorkerMessage =
+  | { type: "light" }
+  | { type: "snooze"; minutes: number }
+  | { type: "collected"; shown: number[]; snoozeUntil: number };
+
+// Already translated, since the worker has no access to the locale catalogs.
+export interface ReminderNotification {
+  title: string;
+  body: string;
+  lightLabel: string;
+  snoozeLabel: string;
+}
+
+export const registerServiceWorker = async () => {
+  // The dev server rebuilds on every change; a caching worker there only gets in the way
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return;
+
+  try {
+    const registration = await navigator.serviceWorker.register("/sw.js");
+    // Chromium only, and only once installed; elsewhere reminders need the tab open
+    const { periodicSync } = registration;
+    if (periodicSync) {
+      await periodicSync.register("smoke-reminder", { minInterval: 15 * 60 * 1000 }).catch(() => {});
+    }
+  } catch (error) {
+    console.error("Service worker registration failed", error);
+  }
+};
+
+const postToWorker = async (message: unknown) => {
+  if (!("serviceWorker" in navigator)) return false;
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration?.active) return false;
+  registration.active.postMessage(message);
+  return true;
+};
+
+// Tell the worker when the next reminder is due so it can fire with the tab closed.
+export const scheduleBackgroundReminder = (next: number | null, notification: ReminderNotification) =>
+  postToWorker({ type: "schedule", next, notification });
+
+// Show a reminder through the worker so it gets "Light one"/"Snooze" buttons,
+// falling back to a plain page notification.
+export const showReminderNotification = async (notification: ReminderNotification) => {
+  if (await postToWorker({ type: "show", notification })) return;
+  new Notification(notification.title, { body: notification.body, icon: "/icons/icon.svg", tag: "smoke-reminder" });
+};
+
+// Ask for reminders the worker showed while no page was open.
+export const collectBackgroundReminders = () => postToWorker({ type: "collect" });
+
+export const onServiceWorkerMessage = (handler: (message: ServiceWorkerMessage) => void) => {
+  if (!("serviceWorker" in navigator)) return () => {};
+  const listener = (event: MessageEvent) => handler(event.data);
+  navigator.serviceWorker.addEventListener("message", listener);
+  return () => navigator.serviceWorker.removeEventListener("message", listener);
+};
+
+// `?action=light` from a notification or the manifest shortcut; cleared so a reload doesn't repeat it.
+export const consumeLaunchAction = () => {
+  const params = new URLSearchParams(location.search);
+  const action = params.get("action");
+  if (action) history.replaceState(null, "", location.pathname);
+  return action;
+};
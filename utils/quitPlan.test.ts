@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { QuitPlan, SmokeRecord } from "../types";
+import { allowanceFor, parseDay, planProgress, planSchedule } from "./quitPlan";
+
+// Ten days from 20 a day down to none
+const plan: QuitPlan = { baselinePerDay: 20, startDate: "2026-03-01", quitDate: "2026-03-11" };
+
+let nextId = 1;
+const record = (kind: SmokeRecord["kind"], day: string, hour = 12): SmokeRecord => {
+  const timestamp = parseDay(day).getTime() + hour * 60 * 60 * 1000;
+  return { id: nextId++, kind, date: "", timestamp, brandName: "A", savedAmount: kind === "virtual" ? 1 : 0 };
+};
+
+describe("allowanceFor", () => {
+  it("tapers in whole cigarettes from the baseline to zero", () => {
+    expect(allowanceFor(plan, "2026-03-01")).toBe(20);
+    expect(allowanceFor(plan, "2026-03-02")).toBe(18);
+    expect(allowanceFor(plan, "2026-03-06")).toBe(10);
+    expect(allowanceFor(plan, "2026-03-10")).toBe(2);
+    expect(allowanceFor(plan, "2026-03-11")).toBe(0);
+  });
+
+  it("keeps the baseline before the start and zero after the quit date", () => {
+    expect(allowanceFor(plan, "2026-02-20")).toBe(20);
+    expect(allowanceFor(plan, "2026-04-01")).toBe(0);
+  });
+
+  it("is zero straight away when the quit date is the start date", () => {
+    expect(allowanceFor({ ...plan, quitDate: plan.startDate }, plan.startDate)).toBe(0);
+  });
+});
+
+describe("planSchedule", () => {
+  it("has one day per plan day with what was logged on it", () => {
+    const schedule = planSchedule(plan, [record("real", "2026-03-02"), record("real", "2026-03-02", 18), record("virtual", "2026-03-02")]);
+    expect(schedule).toHaveLength(11);
+    expect(schedule[1]).toEqual({ day: "2026-03-02", allowance: 18, real: 2, virtual: 1 });
+  });
+
+  it("counts days across a DST change by the calendar", () => {
+    const spring: QuitPlan = { baselinePerDay: 10, startDate: "2026-03-27", quitDate: "2026-04-02" };
+    expect(planSchedule(spring, []).map((d) => d.day)).toEqual([
+      "2026-03-27", "2026-03-28", "2026-03-29", "2026-03-30", "2026-03-31", "2026-04-01", "2026-04-02",
+    ]);
+  });
+});
+
+describe("planProgress", () => {
+  it("counts today against the allowance and finished days on target", () => {
+    const history = [
+      record("real", "2026-03-01"), // 1 of 20
+      ...Array.from({ length: 19 }, () => record("real", "2026-03-02")), // 19 of 18: over
+      record("real", "2026-03-03"),
+      record("virtual", "2026-03-03"),
+    ];
+    const progress = planProgress(plan, history, new Date(2026, 2, 3, 15));
+    expect(progress).toMatchObject({
+      dayNumber: 3,
+      totalDays: 11,
+      allowance: 16,
+      realToday: 1,
+      virtualToday: 1,
+      remaining: 15,
+      daysOnTarget: 1,
+      daysElapsed: 2,
+    });
+  });
+
+  it("keeps counting today after the quit date", () => {
+    const progress = planProgress(plan, [record("real", "2026-03-20")], new Date(2026, 2, 20, 15));
+    expect(progress.dayNumber).toBe(20);
+    expect(progress.realToday).toBe(1);
+    expect(progress.remaining).toBe(-1);
+  });
+});
@@ -0,0 +1,84 @@
+import { QuitPlan, SmokeRecord } from "../types";
+import { dayKey } from "./stats";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "2026-01-31" as local midnight; Date() would read it as UTC
+export const parseDay = (day: string) => {
+  const [y, m, d] = day.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+
+export const todayKey = (now = new Date()) => dayKey(now);
+
+// Real cigarettes allowed on `day`: a straight taper from the baseline on the start
+// day down to zero on the quit date, rounded so each step is a whole cigarette.
+export const allowanceFor = (plan: QuitPlan, day: string) => {
+  const total = daysBetween(plan.startDate, plan.quitDate);
+  const elapsed = daysBetween(plan.startDate, day);
+  if (elapsed < 0) return plan.baselinePerDay;
+  if (total <= 0 || elapsed >= total) return 0;
+  return Math.round(plan.baselinePerDay * (1 - elapsed / total));
+};
+
+export interface PlanDay {
+  day: string;
+  allowance: number;
+  real: number;
+  virtual: number;
+}
+
+// One entry per plan day from the start to the quit date, with what was actually logged.
+export const planSchedule = (plan: QuitPlan, history: SmokeRecord[]): PlanDay[] => {
+  const counts = new Map<string, { real: number; virtual: number }>();
+  for (const r of history) {
+    const key = dayKey(new Date(r.timestamp));
+    const c = counts.get(key) ?? { real: 0, virtual: 0 };
+    c[r.kind] += 1;
+    counts.set(key, c);
+  }
+
+  const start = parseDay(plan.startDate);
+  const days: PlanDay[] = [];
+  for (let i = 0; i <= daysBetween(plan.startDate, plan.quitDate); i++) {
+    const day = dayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+    const c = counts.get(day) ?? { real: 0, virtual: 0 };
+    days.push({ day, allowance: allowanceFor(plan, day), ...c });
+  }
+  return days;
+};
+
+export interface PlanProgress {
+  dayNumber: number; // 1-based, may exceed totalDays after the quit date
+  totalDays: number;
+  allowance: number;
+  realToday: number;
+  virtualToday: number;
+  remaining: number; // negative when over the allowance
+  daysOnTarget: number; // finished days at or under their allowance
+  daysElapsed: number; // finished days so far
+}
+
+export const planProgress = (plan: QuitPlan, history: SmokeRecord[], now = new Date()): PlanProgress => {
+  const today = todayKey(now);
+  const schedule = planSchedule(plan, history);
+  const todayEntry = schedule.find((d) => d.day === today);
+  const realToday = todayEntry?.real ?? history.filter((r) => r.kind === "real" && dayKey(new Date(r.timestamp)) === today).length;
+  const virtualToday = todayEntry?.virtual ?? history.filter((r) => r.kind === "virtual" && dayKey(new Date(r.timestamp)) === today).length;
+  const allowance = allowanceFor(plan, today);
+  const finished = schedule.filter((d) => d.day < today);
+
+  return {
+    dayNumber: daysBetween(plan.startDate, today) + 1,
+    totalDays: schedule.length,
+    allowance,
+    realToday,
+    virtualToday,
+    remaining: allowance - realToday,
+    daysOnTarget: finished.filter((d) => d.real <= d.allowance).length,
+    daysElapsed: finished.length,
+  };
+};
@@ -0,0 +1,61 @@
+import { AppSettings, SmokeRecord } from "../types";
+import { netSummary } from "./stats";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export type RecoveryMilestoneId = "20m" | "12h" | "48h" | "72h" | "2w" | "1mo" | "3mo" | "1y" | "5y" | "10y";
+
+export interface RecoveryMilestone {
+  id: RecoveryMilestoneId; // text lives in the catalogs under "recovery.at.<id>" and "recovery.body.<id>"
+  afterMs: number; // time since the last real cigarette
+}
+
+// Commonly cited timeline (WHO, CDC); months are 30 days, years 365.
+export const RECOVERY_MILESTONES: RecoveryMilestone[] = [
+  { id: "20m", afterMs: 20 * MINUTE_MS },
+  { id: "12h", afterMs: 12 * HOUR_MS },
+  { id: "48h", afterMs: 48 * HOUR_MS },
+  { id: "72h", afterMs: 72 * HOUR_MS },
+  { id: "2w", afterMs: 14 * DAY_MS },
+  { id: "1mo", afterMs: 30 * DAY_MS },
+  { id: "3mo", afterMs: 90 * DAY_MS },
+  { id: "1y", afterMs: 365 * DAY_MS },
+  { id: "5y", afterMs: 5 * 365 * DAY_MS },
+  { id: "10y", afterMs: 10 * 365 * DAY_MS },
+];
+
+// The clock restarts at the latest of the logged real cigarettes and the date set by hand,
+// so logging a relapse resets it. Null when neither is known.
+export const recoveryStart = (history: SmokeRecord[], settings: AppSettings): number | null => {
+  const start = Math.max(netSummary(history).lastRealAt ?? 0, settings.lastCigaretteAt);
+  return start > 0 ? start : null;
+};
+
+export interface RecoveryProgress {
+  elapsedMs: number;
+  reached: RecoveryMilestone[];
+  next: RecoveryMilestone | null; // null once every milestone is reached
+  nextInMs: number;
+  nextProgress: number; // 0..1 from the previous milestone to the next
+}
+
+export const recoveryProgress = (start: number, now = Date.now()): RecoveryProgress => {
+  const elapsedMs = Math.max(0, now - start);
+  const reached = RECOVERY_MILESTONES.filter((m) => m.afterMs <= elapsedMs);
+  const next = RECOVERY_MILESTONES.find((m) => m.afterMs > elapsedMs) ?? null;
+  const previousMs = reached.length > 0 ? reached[reached.length - 1].afterMs : 0;
+
+  return {
+    elapsedMs,
+    reached,
+    next,
+    nextInMs: next ? next.afterMs - elapsedMs : 0,
+    nextProgress: next ? (elapsedMs - previousMs) / (next.afterMs - previousMs) : 1,
+  };
+};
+
+// Milestones passed between two moments, e.g. since the previous session.
+export const milestonesReachedBetween = (start: number, from: number, to: number) =>
+  RECOVERY_MILESTONES.filter((m) => start + m.afterMs > from && start + m.afterMs <= to);
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { AppSettings, ReminderWindow } from "../types";
+import { DEFAULT_SETTINGS, ALL_WEEKDAYS } from "../constants";
+import { EMPTY_REMINDER_STATE, getNextReminder, inActiveHours, isReminderDue, markReminderSent, snoozeReminders } from "./reminders";
+
+const MINUTE_MS = 60 * 1000;
+
+// Local times, so the tests hold in any time zone. 2026-03-02 is a Monday.
+const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute).getTime();
+
+const settingsWith = (windows: ReminderWindow[], patch: Partial<AppSettings> = {}): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  notificationsEnabled: true,
+  intervalMinutes: 60,
+  reminderWindows: windows,
+  ...patch,
+});
+
+const daytime = settingsWith([{ start: "09:00", end: "22:00", days: ALL_WEEKDAYS }]);
+
+describe("getNextReminder", () => {
+  it("is off without notifications or windows", () => {
+    expect(getNextReminder({ ...daytime, notificationsEnabled: false }, [], EMPTY_REMINDER_STATE, at(2, 12))).toBeNull();
+    expect(getNextReminder(settingsWith([]), [], EMPTY_REMINDER_STATE, at(2, 12))).toBeNull();
+  });
+
+  it("comes one interval after the last cigarette", () => {
+    expect(getNextReminder(daytime, [{ timestamp: at(2, 12) }], EMPTY_REMINDER_STATE, at(2, 12, 10))).toBe(at(2, 13));
+  });
+
+  it("is due right away when the interval has already passed", () => {
+    expect(isReminderDue(daytime, [{ timestamp: at(2, 10) }], EMPTY_REMINDER_STATE, at(2, 12))).toBe(true);
+  });
+
+  it("waits for the window to open", () => {
+    expect(getNextReminder(daytime, [], EMPTY_REMINDER_STATE, at(2, 6))).toBe(at(2, 9));
+    expect(getNextReminder(daytime, [], EMPTY_REMINDER_STATE, at(2, 23))).toBe(at(3, 9));
+  });
+
+  it("skips weekdays the window doesn't cover", () => {
+    const weekdays = settingsWith([{ start: "09:00", end: "18:00", days: [1, 2, 3, 4, 5] }]);
+    // Saturday evening, so the next one is Monday morning
+    expect(getNextReminder(weekdays, [], EMPTY_REMINDER_STATE, at(7, 20))).toBe(at(9, 9));
+  });
+
+  it("keeps an overnight window open past midnight", () => {
+    const nights = settingsWith([{ start: "22:00", end: "02:00", days: [1] }]);
+    // Tuesday 01:00 is still in Monday's window
+    expect(getNextReminder(nights, [], EMPTY_REMINDER_STATE, at(3, 1))).toBe(at(3, 1));
+    expect(inActiveHours(nights.reminderWindows, at(3, 1))).toBe(true);
+    expect(inActiveHours(nights.reminderWindows, at(3, 3))).toBe(false);
+  });
+
+  it("honours a snooze", () => {
+    const state = snoozeReminders(EMPTY_REMINDER_STATE, 10, at(2, 12));
+    expect(getNextReminder(daytime, [], state, at(2, 12))).toBe(at(2, 12, 10));
+  });
+
+  it("moves to the next day once the daily cap is reached", () => {
+    const capped = { ...daytime, dailyReminderCap: 2 };
+    let state = markReminderSent(EMPTY_REMINDER_STATE, at(2, 9));
+    state = markReminderSent(state, at(2, 10));
+    expect(getNextReminder(capped, [], state, at(2, 12))).toBe(at(3, 9));
+  });
+});
+
+describe("markReminderSent", () => {
+  it("pushes the next reminder a full interval out, so a slot is only sent once", () => {
+    const now = at(2, 12);
+    expect(isReminderDue(daytime, [], EMPTY_REMINDER_STATE, now)).toBe(true);
+    const state = markReminderSent(EMPTY_REMINDER_STATE, now);
+    expect(isReminderDue(daytime, [], state, now + 30 * MINUTE_MS)).toBe(false);
+    expect(getNextReminder(daytime, [], state, now)).toBe(at(2, 13));
+  });
+
+  it("forgets reminders older than two days", () => {
+    const state = markReminderSent({ sent: [at(1, 9), at(3, 9)], snoozeUntil: 0 }, at(4, 12));
+    expect(state.sent).toEqual([at(3, 9), at(4, 12)]);
+  });
+});
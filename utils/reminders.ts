@@ -0,0 +1,110 @@
+import { AppSettings, ReminderWindow } from "../types";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Runtime bookkeeping the scheduler needs besides settings and history.
+export interface ReminderState {
+  sent: number[]; // timestamps of reminders already shown, pruned to the last two days
+  snoozeUntil: number;
+}
+
+export const EMPTY_REMINDER_STATE: ReminderState = { sent: [], snoozeUntil: 0 };
+
+const parseTime = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + m;
+};
+
+const startOfDay = (t: number) => {
+  const d = new Date(t);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+// Calendar arithmetic through Date so DST days stay 23/25 hours long.
+const addDays = (dayStart: number, n: number) => {
+  const d = new Date(dayStart);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + n).getTime();
+};
+
+const atMinutes = (dayStart: number, minutes: number) => {
+  const d = new Date(dayStart);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate(), 0, minutes).getTime();
+};
+
+// Absolute [start, end) of `window` when it opens on the day starting at `dayStart`.
+// An end at or before the start means the window runs past midnight.
+export const windowSpan = (window: ReminderWindow, dayStart: number): [number, number] => {
+  const start = parseTime(window.start);
+  let end = parseTime(window.end);
+  if (end <= start) end += 24 * 60;
+  return [atMinutes(dayStart, start), atMinutes(dayStart, end)];
+};
+
+// Whether `now` falls inside any of the windows, counting ones that opened yesterday and run past midnight.
+export const inActiveHours = (windows: ReminderWindow[], now: number) => {
+  const today = startOfDay(now);
+  return [addDays(today, -1), today].some((dayStart) => {
+    const weekday = new Date(dayStart).getDay();
+    return windows.some((w) => {
+      if (!w.days.includes(weekday)) return false;
+      const [start, end] = windowSpan(w, dayStart);
+      return now >= start && now < end;
+    });
+  });
+};
+
+const sentOnDay = (state: ReminderState, dayStart: number) =>
+  state.sent.filter((t) => startOfDay(t) === dayStart).length;
+
+// When the next reminder is due, or null if reminders are off or nothing fits in the coming week.
+// Pure: everything it depends on is passed in.
+export const getNextReminder = (
+  settings: AppSettings,
+  history: { timestamp: number }[], // smoking records, or breaks in break mode
+  state: ReminderState,
+  now: number,
+): number | null => {
+  if (!settings.notificationsEnabled || settings.reminderWindows.length === 0) return null;
+
+  const interval = settings.intervalMinutes * MINUTE_MS;
+  const lastSmoke = history.reduce((max, r) => Math.max(max, r.timestamp), 0);
+  const lastSent = state.sent.reduce((max, t) => Math.max(max, t), 0);
+
+  // One interval after the last break or the last reminder, whichever is later
+  const earliest = Math.max(now, lastSmoke + interval, lastSent + interval, state.snoozeUntil);
+  const capped = (t: number) =>
+    settings.dailyReminderCap > 0 && sentOnDay(state, startOfDay(t)) >= settings.dailyReminderCap;
+
+  let best: number | null = null;
+  const today = startOfDay(earliest);
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = addDays(today, offset);
+    const weekday = new Date(day).getDay();
+
+    for (const w of settings.reminderWindows) {
+      if (!w.days.includes(weekday)) continue;
+      const [start, end] = windowSpan(w, day);
+      let t = Math.max(earliest, start);
+      if (capped(t)) t = addDays(startOfDay(t), 1);
+      if (t >= end) continue;
+      if (best === null || t < best) best = t;
+    }
+  }
+  return best;
+};
+
+export const isReminderDue = (settings: AppSettings, history: { timestamp: number }[], state: ReminderState, now: number) => {
+  const next = getNextReminder(settings, history, state, now);
+  return next !== null && next <= now;
+};
+
+export const markReminderSent = (state: ReminderState, now: number): ReminderState => ({
+  ...state,
+  sent: [...state.sent.filter((t) => t > now - 2 * DAY_MS), now],
+});
+
+export const snoozeReminders = (state: ReminderState, minutes: number, now: number): ReminderState => ({
+  ...state,
+  snoozeUntil: now + minutes * MINUTE_MS,
+});
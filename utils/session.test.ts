@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  BurnRates,
+  abandonSession,
+  isSessionActive,
+  lightSession,
+  pauseSession,
+  resumeSession,
+  sessionActiveMs,
+  sessionProgress,
+  settle,
+  startPuff,
+  stopPuff,
+} from "./session";
+
+const RATES: BurnRates = { autoMs: 60_000, puffMs: 15_000, idleMs: 300_000 };
+const T0 = 1_000_000;
+
+const light = (mode: "auto" | "puff" = "auto") => lightSession({ brandId: "marlboro", mode, rates: RATES, craving: null }, T0);
+
+describe("auto mode", () => {
+  it("burns by the clock", () => {
+    const s = light();
+    expect(sessionProgress(s, T0 + 30_000)).toBeCloseTo(0.5);
+    expect(sessionActiveMs(s, T0 + 30_000)).toBe(30_000);
+  });
+
+  it("finishes at the moment it burned through, however late it's settled", () => {
+    const finished = settle(light(), T0 + 10 * 60_000);
+    expect(finished).toMatchObject({ status: "finished", burned: 1, endedAt: T0 + 60_000, activeMs: 60_000 });
+  });
+
+  it("leaves pauses out of the burn and the lit time", () => {
+    const paused = pauseSession(light(), T0 + 20_000);
+    expect(paused.status).toBe("paused");
+    // Nothing burns while paused
+    expect(sessionProgress(paused, T0 + 100_000)).toBeCloseTo(1 / 3);
+    const resumed = resumeSession(paused, T0 + 100_000);
+    expect(sessionProgress(resumed, T0 + 110_000)).toBeCloseTo(0.5);
+    expect(sessionActiveMs(resumed, T0 + 110_000)).toBe(30_000);
+  });
+
+  it("ignores a resume on a lit session", () => {
+    const s = light();
+    expect(resumeSession(s, T0 + 5_000)).toBe(s);
+  });
+});
+
+describe("puff mode", () => {
+  it("burns fast while drawing and slowly in between", () => {
+    let s = startPuff(light("puff"), T0 + 30_000); // 30s idle: 0.1
+    s = stopPuff(s, T0 + 33_000); // 3s drawing: 0.2
+    expect(s.burned).toBeCloseTo(0.3);
+    expect(s).toMatchObject({ puffing: false, puffCount: 1, inhaleMs: 3_000, activeMs: 33_000 });
+  });
+
+  it("doesn't start a puff in auto mode or while paused", () => {
+    expect(startPuff(light(), T0 + 1_000).puffing).toBe(false);
+    const paused = pauseSession(light("puff"), T0 + 1_000);
+    expect(startPuff(paused, T0 + 2_000).puffing).toBe(false);
+  });
+
+  it("ends the puff when paused", () => {
+    const s = pauseSession(startPuff(light("puff"), T0), T0 + 2_000);
+    expect(s).toMatchObject({ status: "paused", puffing: false, inhaleMs: 2_000 });
+  });
+
+  it("counts the drawing time up to the end when it burns through mid-puff", () => {
+    const s = settle(startPuff(light("puff"), T0), T0 + 60_000);
+    expect(s).toMatchObject({ status: "finished", endedAt: T0 + 15_000, inhaleMs: 15_000, puffing: false });
+  });
+});
+
+describe("abandonSession", () => {
+  it("keeps the part that burned", () => {
+    const s = abandonSession(light(), T0 + 15_000);
+    expect(s).toMatchObject({ status: "abandoned", endedAt: T0 + 15_000 });
+    expect(s.burned).toBeCloseTo(0.25);
+    expect(isSessionActive(s)).toBe(false);
+  });
+
+  it("can't put out a session that already burned through", () => {
+    expect(abandonSession(light(), T0 + 120_000).status).toBe("finished");
+  });
+});
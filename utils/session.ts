@@ -0,0 +1,128 @@
+import { Brand, SmokingMode } from "../types";
+import { AUTO_BURN_DURATION, PUFF_BURN_DURATION, IDLE_BURN_DURATION } from "../constants";
+import { burnDuration } from "./brands";
+import { CravingEntry } from "./cravings";
+
+// The smoking session as a state machine driven by timestamps, so throttled background
+// timers or a reload can't stretch or lose it. No session at all is the idle state:
+//
+//   idle -> lit <-> paused
+//            lit -> finished          (burned through)
+//   lit | paused -> abandoned         (put out early)
+//
+// Pure: every transition takes the current time, so a test can drive it with a fake clock.
+
+export type SessionStatus = "lit" | "paused" | "finished" | "abandoned";
+
+// Time to burn the whole stick at each rate.
+export interface BurnRates {
+  autoMs: number;
+  puffMs: number; // hold-to-puff mode, while drawing
+  idleMs: number; // hold-to-puff mode, smouldering between puffs
+}
+
+export interface Session {
+  status: SessionStatus;
+  brandId: string;
+  mode: SmokingMode;
+  rates: BurnRates;
+  startedAt: number;
+  settledAt: number; // burned, activeMs and inhaleMs are up to date as of this time
+  burned: number; // 0..1
+  activeMs: number; // time lit, pauses left out
+  puffing: boolean;
+  puffCount: number;
+  inhaleMs: number;
+  endedAt?: number;
+  craving: CravingEntry | null;
+}
+
+// Puff timings scale with the brand the same way the auto burn does.
+export const burnRates = (brand: Brand): BurnRates => {
+  const autoMs = burnDuration(brand);
+  const scale = autoMs / AUTO_BURN_DURATION;
+  return { autoMs, puffMs: PUFF_BURN_DURATION * scale, idleMs: IDLE_BURN_DURATION * scale };
+};
+
+// Sessions put out before this much has burned aren't worth a record.
+export const MIN_PARTIAL_BURN = 0.05;
+
+export const lightSession = (
+  { brandId, mode, rates, craving }: { brandId: string, mode: SmokingMode, rates: BurnRates, craving: CravingEntry | null },
+  now: number,
+): Session => ({
+  status: "lit",
+  brandId,
+  mode,
+  rates,
+  startedAt: now,
+  settledAt: now,
+  burned: 0,
+  activeMs: 0,
+  puffing: false,
+  puffCount: 0,
+  inhaleMs: 0,
+  craving,
+});
+
+export const isSessionActive = (s: Session | null): s is Session => s !== null && (s.status === "lit" || s.status === "paused");
+
+const burnMs = (s: Session) =>
+  s.mode === "auto" ? s.rates.autoMs : s.puffing ? s.rates.puffMs : s.rates.idleMs;
+
+// Bring a lit session up to `now`, finishing it at the exact moment it burned through.
+export const settle = (s: Session, now: number): Session => {
+  if (s.status !== "lit" || now <= s.settledAt) return s;
+  const elapsed = now - s.settledAt;
+  const untilDone = (1 - s.burned) * burnMs(s);
+
+  if (elapsed >= untilDone) {
+    return {
+      ...s,
+      status: "finished",
+      settledAt: s.settledAt + untilDone,
+      endedAt: s.settledAt + untilDone,
+      burned: 1,
+      activeMs: s.activeMs + untilDone,
+      inhaleMs: s.inhaleMs + (s.puffing ? untilDone : 0),
+      puffing: false,
+    };
+  }
+  return {
+    ...s,
+    settledAt: now,
+    burned: s.burned + elapsed / burnMs(s),
+    activeMs: s.activeMs + elapsed,
+    inhaleMs: s.inhaleMs + (s.puffing ? elapsed : 0),
+  };
+};
+
+export const pauseSession = (s: Session, now: number): Session => {
+  const settled = settle(s, now);
+  return settled.status === "lit" ? { ...settled, status: "paused", puffing: false } : settled;
+};
+
+export const resumeSession = (s: Session, now: number): Session =>
+  s.status === "paused" ? { ...s, status: "lit", settledAt: now } : s;
+
+export const startPuff = (s: Session, now: number): Session => {
+  const settled = settle(s, now);
+  if (settled.status !== "lit" || settled.mode !== "puff" || settled.puffing) return settled;
+  return { ...settled, puffing: true, puffCount: settled.puffCount + 1 };
+};
+
+export const stopPuff = (s: Session, now: number): Session => {
+  const settled = settle(s, now);
+  return settled.puffing ? { ...settled, puffing: false } : settled;
+};
+
+export const abandonSession = (s: Session, now: number): Session => {
+  const settled = settle(s, now);
+  if (!isSessionActive(settled)) return settled;
+  return { ...settled, status: "abandoned", endedAt: now, puffing: false };
+};
+
+// Progress and lit time as of `now`, for display; doesn't change the session.
+export const sessionProgress = (s: Session, now: number) => settle(s, now).burned;
+
+export const sessionActiveMs = (s: Session, now: number) => settle(s, now).activeMs;
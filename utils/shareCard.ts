@@ -0,0 +1,227 @@
+import { Brand } from "../types";
+import { stickSpec } from "./brands";
+import type { I18n } from "./i18n";
+
+// A PNG card for posting progress, drawn on a canvas so it can be downloaded or shared as a file.
+
+export type ShareTemplate = "ember" | "minimal" | "receipt";
+export type ShareSize = "square" | "story";
+
+export const SHARE_TEMPLATES: ShareTemplate[] = ["ember", "minimal", "receipt"];
+
+export const SHARE_SIZES: Record<ShareSize, { width: number, height: number }> = {
+  square: { width: 1080, height: 1080 },
+  story: { width: 1080, height: 1920 },
+};
+
+export interface ShareCardData {
+  brand: Brand;
+  savedAmount: number;
+  totalSaved: number;
+  streak: number;
+  message: string | null;
+  timestamp: number;
+}
+
+interface Palette {
+  background: [string, string];
+  text: string;
+  muted: string;
+  accent: string;
+  font: string;
+}
+
+const SANS = "system-ui, -apple-system, 'PingFang SC', 'Microsoft YaHei', sans-serif";
+const MONO = "ui-monospace, 'SF Mono', Menlo, Consolas, monospace";
+
+const PALETTES: Record<ShareTemplate, Palette> = {
+  ember: { background: ["#171717", "#431407"], text: "#ffffff", muted: "#a3a3a3", accent: "#fb923c", font: SANS },
+  minimal: { background: ["#fafaf9", "#e7e5e4"], text: "#1c1917", muted: "#78716c", accent: "#059669", font: SANS },
+  receipt: { background: ["#fffbeb", "#fef3c7"], text: "#292524", muted: "#78716c", accent: "#292524", font: MONO },
+};
+
+// Tailwind's w-* classes in px, for the stick's width on the card
+const STICK_WIDTHS: Record<string, number> = { "w-6": 24, "w-8": 32, "w-10": 40, "w-16": 64 };
+
+// Built-in brands and ones made in the editor carry hex colours; older saved ones fall back to a plain white stick.
+const stickColors = (brand: Brand) => brand.appearance ?? {
+  filterColor: "#d4a373",
+  filterTexture: "plain",
+  bodyColor: "#ffffff",
+  textColor: "#000000",
+  ringColor: undefined,
+};
+
+// The stick standing upright with a lit ember, `height` px tall, centred on `cx` with its base at `bottom`.
+const drawStick = (ctx: CanvasRenderingContext2D, brand: Brand, cx: number, bottom: number, height: number) => {
+  const spec = stickSpec(brand);
+  const colors = stickColors(brand);
+  const scale = height / (spec.tobaccoHeight + spec.filterHeight);
+  const width = (STICK_WIDTHS[spec.widthClass] ?? 40) * scale * 1.6;
+  const left = cx - width / 2;
+  const filterHeight = spec.filterHeight * scale;
+  const bodyTop = bottom - height;
+
+  // Rounded shading across the stick, like the gradients in Cigarette3D
+  const shaded = (color: string) => {
+    const g = ctx.createLinearGradient(left, 0, left + width, 0);
+    g.addColorStop(0, color);
+    g.addColorStop(0.4, color);
+    g.addColorStop(1, "rgba(0,0,0,0.35)");
+    return g;
+  };
+
+  ctx.save();
+  ctx.shadowColor = "rgba(0,0,0,0.35)";
+  ctx.shadowBlur = 40 * scale;
+  ctx.fillStyle = colors.bodyColor;
+  ctx.fillRect(left, bodyTop, width, height - filterHeight);
+  ctx.restore();
+  ctx.fillStyle = shaded("rgba(0,0,0,0)");
+  ctx.fillRect(left, bodyTop, width, height - filterHeight);
+
+  if (filterHeight > 0) {
+    ctx.fillStyle = colors.filterColor;
+    ctx.fillRect(left, bottom - filterHeight, width, filterHeight);
+    if (colors.filterTexture === "cork") {
+      ctx.fillStyle = "rgba(0,0,0,0.12)";
+      for (let row = 0, y = bottom - filterHeight + 4; y < bottom; row++, y += 9) {
+        for (let x = left + (row % 2) * 4 + 2; x < left + width; x += 9) ctx.fillRect(x, y, 2, 2);
+      }
+    } else if (colors.filterTexture === "striped") {
+      ctx.fillStyle = "rgba(0,0,0,0.15)";
+      for (let y = bottom - filterHeight; y < bottom; y += 12) ctx.fillRect(left, y, width, 3);
+    }
+    ctx.fillStyle = shaded("rgba(0,0,0,0)");
+    ctx.fillRect(left, bottom - filterHeight, width, filterHeight);
+  }
+
+  if (colors.ringColor) {
+    ctx.fillStyle = colors.ringColor;
+    ctx.fillRect(left, bottom - filterHeight - 10 * scale * 2, width, 8 * scale * 2);
+  }
+
+  // Ember, with a glow
+  if (spec.ashChunk > 0) {
+    const glow = ctx.createRadialGradient(cx, bodyTop, 0, cx, bodyTop, width * 1.5);
+    glow.addColorStop(0, "rgba(251,146,60,0.6)");
+    glow.addColorStop(1, "rgba(251,146,60,0)");
+    ctx.fillStyle = glow;
+    ctx.fillRect(cx - width * 1.5, bodyTop - width * 1.5, width * 3, width * 3);
+    ctx.fillStyle = "#f97316";
+    ctx.fillRect(left, bodyTop - 6, width, 8);
+    ctx.fillStyle = "#fde68a";
+    ctx.fillRect(left + width * 0.3, bodyTop - 4, width * 0.4, 4);
+  }
+};
+
+// Greedy line breaking; CJK text has no spaces, so it may break between any two characters.
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number) => {
+  const tokens = text.match(/[\u2e80-\u9fff\uff00-\uffef]|[^\s\u2e80-\u9fff\uff00-\uffef]+\s*|\s+/g) ?? [];
+  const lines: string[] = [];
+  let line = "";
+  for (const token of tokens) {
+    if (line && ctx.measureText(line + token).width > maxWidth) {
+      lines.push(line.trimEnd());
+      line = token.trimStart();
+    } else {
+      line += token;
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].replace(/.$/, "")}…`;
+  }
+  return lines;
+};
+
+export const drawShareCard = (
+  canvas: HTMLCanvasElement,
+  data: ShareCardData,
+  template: ShareTemplate,
+  size: ShareSize,
+  i18n: I18n,
+) => {
+  const { t } = i18n;
+  const { width, height } = SHARE_SIZES[size];
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  const p = PALETTES[template];
+  const story = size === "story";
+  const font = (px: number, weight = 400) => `${weight} ${px}px ${p.font}`;
+
+  const bg = ctx.createLinearGradient(0, 0, 0, height);
+  bg.addColorStop(0, p.background[0]);
+  bg.addColorStop(1, p.background[1]);
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, width, height);
+
+  const margin = 96;
+  ctx.textBaseline = "alphabetic";
+
+  // Stick: centred up top in a story, down the right-hand side of a square card
+  const stickHeight = story ? 620 : 640;
+  if (story) drawStick(ctx, data.brand, width / 2, 180 + stickHeight, stickHeight);
+  else drawStick(ctx, data.brand, width - margin - 90, height - margin - 40, stickHeight);
+
+  const textWidth = story ? width - margin * 2 : width - margin * 2 - 240;
+  let y = story ? 180 + stickHeight + 150 : margin + 40;
+  ctx.textAlign = story ? "center" : "left";
+  const x = story ? width / 2 : margin;
+
+  const line = (text: string, px: number, color: string, weight = 400, gap = 1.35) => {
+    ctx.font = font(px, weight);
+    ctx.fillStyle = color;
+    ctx.fillText(text, x, y);
+    y += px * gap;
+  };
+
+  const rule = () => {
+    ctx.strokeStyle = p.muted;
+    ctx.lineWidth = 3;
+    ctx.setLineDash(template === "receipt" ? [14, 10] : []);
+    ctx.beginPath();
+    ctx.moveTo(story ? margin : x, y);
+    ctx.lineTo(story ? width - margin : x + textWidth, y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    y += 70;
+  };
+
+  line(data.brand.name.toUpperCase(), 36, p.muted, 700, 2);
+  if (template === "receipt") {
+    line(t("share.receiptItem", { brand: data.brand.name, amount: i18n.money(data.savedAmount) }), 44, p.text, 500, 1.6);
+    rule();
+    line(t("share.receiptTotal", { amount: i18n.money(data.totalSaved) }), 56, p.text, 700, 1.6);
+    line(t("share.streak", { n: data.streak }), 40, p.muted, 400, 1.8);
+  } else {
+    line(t("share.saved"), 44, p.muted, 500, 1.5);
+    line(i18n.money(data.savedAmount), 150, p.accent, 800, 1.15);
+    line(t("share.total", { amount: i18n.money(data.totalSaved) }), 44, p.text, 600, 1.5);
+    line(t("share.streak", { n: data.streak }), 40, p.muted, 400, 1.8);
+  }
+
+  if (data.message) {
+    rule();
+    ctx.font = font(story ? 48 : 40, 400);
+    for (const text of wrapLines(ctx, `“${data.message}”`, textWidth, story ? 6 : 4)) {
+      line(text, story ? 48 : 40, p.text, 400, 1.4);
+    }
+  }
+
+  // Footer
+  ctx.textAlign = "left";
+  ctx.font = font(32, 700);
+  ctx.fillStyle = p.muted;
+  ctx.fillText(t("share.appName"), margin, height - margin);
+  ctx.textAlign = "right";
+  ctx.font = font(32, 400);
+  ctx.fillText(i18n.date(data.timestamp, { year: "numeric", month: "short", day: "numeric" }), story ? width - margin : width - margin - 240, height - margin);
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Canvas export failed"))), "image/png");
+  });
@@ -0,0 +1,165 @@
+import { Brand, StickType } from "../types";
+import { stickTypeOf } from "./brands";
+
+// Canvas smoke: a small particle simulation stepped once per animation frame.
+// Everything is in canvas pixels and seconds; particles are mutated in place so
+// a frame allocates nothing once the pool has filled.
+
+export interface SmokeStyle {
+  rgb: string; // "r, g, b" the particle sprite is drawn in
+  size: number; // starting radius
+  spread: number; // horizontal jitter at the emitter
+  density: number; // multiplies the emission rate
+}
+
+const SMOKE_GREY = [205, 205, 210];
+const TINT_WEIGHT = 0.15;
+
+const parseHex = (hex: string) => {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!m) return null;
+  const n = parseInt(m[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// Plume shape per stick: slims are thin, cigars thick and heavy, heated sticks give off a light vapour.
+const PLUMES: Record<StickType, Omit<SmokeStyle, "rgb">> = {
+  slim: { size: 5, spread: 2, density: 0.8 },
+  regular: { size: 7, spread: 4, density: 1 },
+  king: { size: 7, spread: 4, density: 1 },
+  cigar: { size: 11, spread: 8, density: 1.5 },
+  heated: { size: 6, spread: 3, density: 0.5 },
+};
+
+// Grey smoke with a hint of the brand's accent colour.
+export const smokeStyle = (brand: Brand): SmokeStyle => {
+  const accent = brand.appearance ? parseHex(brand.appearance.textColor) : null;
+  const [r, g, b] = SMOKE_GREY.map((c, i) => Math.round(accent ? c * (1 - TINT_WEIGHT) + accent[i] * TINT_WEIGHT : c));
+  return { rgb: `${r}, ${g}, ${b}`, ...PLUMES[stickTypeOf(brand)] };
+};
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  age: number;
+  life: number;
+  size: number;
+  seed: number; // phase offset for the turbulence
+}
+
+// A push from the pointer; strength fades with distance and age.
+export interface Gust {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  age: number;
+}
+
+export interface SmokeInput {
+  emitX: number;
+  emitY: number;
+  rate: number; // particles per second, 0 to stop emitting
+  maxParticles: number;
+  gust: Gust | null;
+}
+
+export interface SmokeState {
+  particles: Particle[];
+  pending: number; // fractional particles carried over to the next frame
+  time: number;
+}
+
+export const createSmokeState = (): SmokeState => ({ particles: [], pending: 0, time: 0 });
+
+const RISE_SPEED = 38;
+const LIFE = 3.2;
+const GROWTH = 9; // radius gained per second
+const DRAG = 0.6;
+const GUST_RADIUS = 90;
+const GUST_LIFE = 0.6;
+
+// Slow, layered sine waves read as a shifting breeze.
+const windAt = (time: number) => Math.sin(time * 0.31) * 7 + Math.sin(time * 0.13 + 1.7) * 5;
+
+export const emissionRate = ({ puffing, exhaling }: { puffing: boolean, exhaling: boolean }) =>
+  6 + (exhaling ? 12 : 0) + (puffing ? 30 : 0);
+
+export const stepSmoke = (state: SmokeState, dt: number, input: SmokeInput, style: SmokeStyle) => {
+  state.time += dt;
+  const { particles } = state;
+
+  // Emit
+  state.pending += input.rate * style.density * dt;
+  while (state.pending >= 1) {
+    state.pending -= 1;
+    if (particles.length >= input.maxParticles) continue;
+    particles.push({
+      x: input.emitX + (Math.random() - 0.5) * style.spread * 2,
+      y: input.emitY,
+      vx: (Math.random() - 0.5) * 6,
+      vy: -RISE_SPEED * (0.7 + Math.random() * 0.6),
+      age: 0,
+      life: LIFE * (0.7 + Math.random() * 0.6),
+      size: style.size * (0.8 + Math.random() * 0.4),
+      seed: Math.random() * Math.PI * 2,
+    });
+  }
+
+  // Move
+  const wind = windAt(state.time);
+  const gust = input.gust && input.gust.age < GUST_LIFE ? input.gust : null;
+  const gustFade = gust ? 1 - gust.age / GUST_LIFE : 0;
+  let alive = 0;
+  for (const p of particles) {
+    p.age += dt;
+    if (p.age >= p.life) continue;
+
+    // Turbulence grows as the plume rises and breaks up
+    const sway = Math.sin(p.y * 0.035 + state.time * 1.6 + p.seed) * 14 * (p.age / p.life);
+    p.vx += (wind + sway - p.vx) * DRAG * dt;
+
+    if (gust) {
+      const dx = p.x - gust.x;
+      const dy = p.y - gust.y;
+      const dist = Math.hypot(dx, dy);
+      if (dist < GUST_RADIUS) {
+        const push = (1 - dist / GUST_RADIUS) * gustFade * dt * 3;
+        // Along the pointer's motion plus a curl around it makes a swirl
+        p.vx += gust.vx * push - dy * push * 1.5;
+        p.vy += gust.vy * push + dx * push * 1.5;
+      }
+    }
+
+    p.x += p.vx * dt;
+    p.y += p.vy * dt;
+    p.size += GROWTH * dt;
+    particles[alive++] = p;
+  }
+  particles.length = alive;
+};
+
+// A soft round sprite, drawn once per style and stamped for every particle.
+export const smokeSprite = (style: SmokeStyle) => {
+  const sprite = document.createElement("canvas");
+  sprite.width = sprite.height = 64;
+  const ctx = sprite.getContext("2d")!;
+  const gradient = ctx.createRadialGradient(32, 32, 0, 32, 32, 32);
+  gradient.addColorStop(0, `rgba(${style.rgb}, 1)`);
+  gradient.addColorStop(1, `rgba(${style.rgb}, 0)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 64, 64);
+  return sprite;
+};
+
+export const drawSmoke = (ctx: CanvasRenderingContext2D, particles: Particle[], sprite: HTMLCanvasElement) => {
+  for (const p of particles) {
+    const t = p.age / p.life;
+    // Quick fade in, long fade out
+    ctx.globalAlpha = (t < 0.15 ? t / 0.15 : 1 - (t - 0.15) / 0.85) * 0.35;
+    ctx.drawImage(sprite, p.x - p.size, p.y - p.size, p.size * 2, p.size * 2);
+  }
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,182 @@
+import { SmokeRecord } from "../types";
+
+export type StatsPeriod = "day" | "week" | "month";
+
+export interface Bucket {
+  key: string;
+  start: Date; // first day of the period
+  count: number;
+  saved: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+// Weeks start on Monday
+const startOfWeek = (d: Date) => {
+  const day = startOfDay(d);
+  const offset = (day.getDay() + 6) % 7;
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - offset);
+};
+
+const startOfMonth = (d: Date) => new Date(d.getFullYear(), d.getMonth(), 1);
+
+export const dayKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+const periodStart = (period: StatsPeriod, d: Date) =>
+  period === "day" ? startOfDay(d) : period === "week" ? startOfWeek(d) : startOfMonth(d);
+
+const stepBack = (period: StatsPeriod, d: Date, n: number) =>
+  period === "day"
+    ? new Date(d.getFullYear(), d.getMonth(), d.getDate() - n)
+    : period === "week"
+      ? new Date(d.getFullYear(), d.getMonth(), d.getDate() - n * 7)
+      : new Date(d.getFullYear(), d.getMonth() - n, 1);
+
+// The last `size` periods (oldest first), ending with the one containing `now`.
+export const bucketize = (records: SmokeRecord[], period: StatsPeriod, size: number, now = new Date()): Bucket[] => {
+  const current = periodStart(period, now);
+  const buckets: Bucket[] = [];
+  const index = new Map<string, Bucket>();
+
+  for (let i = size - 1; i >= 0; i--) {
+    const start = stepBack(period, current, i);
+    const bucket = { key: dayKey(start), start, count: 0, saved: 0 };
+    buckets.push(bucket);
+    index.set(bucket.key, bucket);
+  }
+
+  for (const r of records) {
+    const bucket = index.get(dayKey(periodStart(period, new Date(r.timestamp))));
+    if (!bucket) continue;
+    bucket.count += 1;
+    bucket.saved += r.savedAmount;
+  }
+
+  return buckets;
+};
+
+export interface CalendarDay {
+  key: string;
+  date: Date;
+  count: number;
+  future: boolean; // later this week, after `now`
+}
+
+// The last `weeks` calendar weeks as columns of Monday..Sunday, oldest first, for a heatmap.
+export const calendarWeeks = (records: SmokeRecord[], weeks: number, now = new Date()): CalendarDay[][] => {
+  const counts = new Map<string, number>();
+  for (const r of records) {
+    const key = dayKey(new Date(r.timestamp));
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const today = startOfDay(now);
+  const firstWeek = stepBack("week", startOfWeek(now), weeks - 1);
+  return Array.from({ length: weeks }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = new Date(firstWeek.getFullYear(), firstWeek.getMonth(), firstWeek.getDate() + w * 7 + d);
+      const key = dayKey(date);
+      return { key, date, count: counts.get(key) ?? 0, future: date > today };
+    }),
+  );
+};
+
+// Mean gap between consecutive sessions, in minutes; null with fewer than two sessions.
+export const averageIntervalMinutes = (records: SmokeRecord[]) => {
+  if (records.length < 2) return null;
+  const times = records.map((r) => r.timestamp).sort((a, b) => a - b);
+  return (times[times.length - 1] - times[0]) / (times.length - 1) / 60000;
+};
+
+export interface BrandStat {
+  brandName: string;
+  count: number;
+  saved: number;
+}
+
+export const brandBreakdown = (records: SmokeRecord[]): BrandStat[] => {
+  const byBrand = new Map<string, BrandStat>();
+  for (const r of records) {
+    const stat = byBrand.get(r.brandName) ?? { brandName: r.brandName, count: 0, saved: 0 };
+    stat.count += 1;
+    stat.saved += r.savedAmount;
+    byBrand.set(r.brandName, stat);
+  }
+  return [...byBrand.values()].sort((a, b) => b.count - a.count);
+};
+
+// Session counts per hour of day (index 0..23).
+export const hourlyDistribution = (records: SmokeRecord[]) => {
+  const hours = new Array<number>(24).fill(0);
+  for (const r of records) hours[new Date(r.timestamp).getHours()] += 1;
+  return hours;
+};
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+// Consecutive days with at least one session. The current streak survives
+// until the end of today, so yesterday's streak still counts this morning.
+export const computeStreaks = (records: SmokeRecord[], now = new Date()): Streaks => {
+  const days = new Set(records.map((r) => dayKey(new Date(r.timestamp))));
+  if (days.size === 0) return { current: 0, longest: 0 };
+
+  const sorted = [...days].sort();
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = Math.round((new Date(sorted[i]).getTime() - new Date(sorted[i - 1]).getTime()) / DAY_MS);
+    run = gap === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = startOfDay(now);
+  let cursor = days.has(dayKey(today)) ? today : stepBack("day", today, 1);
+  let current = 0;
+  while (days.has(dayKey(cursor))) {
+    current += 1;
+    cursor = stepBack("day", cursor, 1);
+  }
+
+  return { current, longest };
+};
+
+export interface NetSummary {
+  saved: number; // from virtual sessions
+  spent: number; // on logged real cigarettes
+  net: number;
+  substitutionRatio: number | null; // share of all cigarettes that were virtual, null with none logged
+  lastRealAt: number | null;
+}
+
+export const netSummary = (records: SmokeRecord[]): NetSummary => {
+  let saved = 0;
+  let spent = 0;
+  let virtual = 0;
+  let real = 0;
+  let lastRealAt: number | null = null;
+
+  for (const r of records) {
+    if (r.kind === "real") {
+      real += 1;
+      spent += r.spentAmount ?? 0;
+      lastRealAt = Math.max(lastRealAt ?? 0, r.timestamp);
+    } else {
+      virtual += 1;
+      saved += r.savedAmount;
+    }
+  }
+
+  return {
+    saved,
+    spent,
+    net: saved - spent,
+    substitutionRatio: virtual + real > 0 ? virtual / (virtual + real) : null,
+    lastRealAt,
+  };
+};
@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_SETTINGS, ALL_WEEKDAYS } from "../constants";
+import {
+  HISTORY_VERSION,
+  SETTINGS_VERSION,
+  loadFallbackHistory,
+  loadSession,
+  loadSettings,
+  sanitizeRecord,
+  sanitizeSettings,
+  upgradeRecords,
+  upgradeSettings,
+} from "./storage";
+import { lightSession, settle, startPuff } from "./session";
+
+const store = new Map<string, string>();
+vi.stubGlobal("localStorage", {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => store.set(key, String(value)),
+  removeItem: (key: string) => store.delete(key),
+});
+
+beforeEach(() => store.clear());
+afterEach(() => vi.restoreAllMocks());
+
+describe("settings migrations", () => {
+  it("turns the old start/end pair into an every-day window", () => {
+    const settings = upgradeSettings({ startTime: "08:30", endTime: "23:00", intervalMinutes: 45 }, 0);
+    expect(settings.reminderWindows).toEqual([{ start: "08:30", end: "23:00", days: ALL_WEEKDAYS }]);
+    expect(settings.intervalMinutes).toBe(45);
+    expect(settings).not.toHaveProperty("startTime");
+  });
+
+  it("leaves current settings alone", () => {
+    const windows = [{ start: "10:00", end: "02:00", days: [1, 2, 3] }];
+    expect(upgradeSettings({ ...DEFAULT_SETTINGS, reminderWindows: windows }, SETTINGS_VERSION).reminderWindows).toEqual(windows);
+  });
+
+  it("reads a bare pre-versioning object from storage", () => {
+    store.set("smoke_settings", JSON.stringify({ startTime: "07:00", endTime: "21:00" }));
+    expect(loadSettings().reminderWindows).toEqual([{ start: "07:00", end: "21:00", days: ALL_WEEKDAYS }]);
+  });
+
+  it("falls back to the defaults on corrupted JSON", () => {
+    store.set("smoke_settings", "{not json");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+});
+
+describe("sanitizeSettings", () => {
+  it("keeps valid fields and replaces the rest with defaults", () => {
+    const settings = sanitizeSettings({ intervalMinutes: -5, currency: "usd", messageTone: "gentle", locale: "fr", soundVolume: 0.2 });
+    expect(settings.intervalMinutes).toBe(DEFAULT_SETTINGS.intervalMinutes);
+    expect(settings.currency).toBe(DEFAULT_SETTINGS.currency);
+    expect(settings.locale).toBe(DEFAULT_SETTINGS.locale);
+    expect(settings.messageTone).toBe("gentle");
+    expect(settings.soundVolume).toBe(0.2);
+  });
+
+  it("rejects malformed reminder windows", () => {
+    expect(sanitizeSettings({ reminderWindows: [{ start: "25:00", end: "22:00", days: [1] }] }).reminderWindows)
+      .toEqual(DEFAULT_SETTINGS.reminderWindows);
+  });
+
+  it("returns the defaults for anything that isn't an object", () => {
+    expect(sanitizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+    expect(sanitizeSettings("settings")).toEqual(DEFAULT_SETTINGS);
+  });
+});
+
+describe("record migrations", () => {
+  it("fills in the timestamp and kind of version 0 records", () => {
+    const [record] = upgradeRecords([{ id: 1700000000000, brandName: "Marlboro", savedAmount: 1.5 }], 0);
+    expect(record.timestamp).toBe(1700000000000);
+    expect(record.kind).toBe("virtual");
+  });
+
+  it("keeps a kind that is already there", () => {
+    const [record] = upgradeRecords([{ id: 1, timestamp: 2, kind: "real", brandName: "Marlboro", savedAmount: 0 }], 1);
+    expect(record.kind).toBe("real");
+  });
+
+  it("drops records that can't be repaired and sorts the rest newest first", () => {
+    const records = upgradeRecords([
+      { id: 1, timestamp: 10, kind: "virtual", brandName: "A", savedAmount: 1 },
+      { id: 2, timestamp: 30, kind: "virtual", brandName: "B", savedAmount: 1 },
+      { id: 3, timestamp: 20, kind: "virtual", savedAmount: 1 },
+      "not a record",
+    ], HISTORY_VERSION);
+    expect(records.map((r) => r.id)).toEqual([2, 1]);
+  });
+
+  it("returns nothing for data that isn't a list", () => {
+    expect(upgradeRecords({ id: 1 }, 0)).toEqual([]);
+  });
+
+  it("reads the legacy localStorage history", () => {
+    store.set("smoke_history", JSON.stringify([{ id: 5, brandName: "A", savedAmount: 2 }]));
+    expect(loadFallbackHistory()).toMatchObject([{ id: 5, timestamp: 5, kind: "virtual" }]);
+  });
+});
+
+describe("sanitizeRecord", () => {
+  const base = { id: 1, timestamp: 1, kind: "virtual", brandName: "A", savedAmount: 1 };
+
+  it("keeps known optional fields and drops unknown ones", () => {
+    const record = sanitizeRecord({ ...base, burned: 0.5, brandId: "marlboro", triggers: ["stress"], extra: true });
+    expect(record).toMatchObject({ burned: 0.5, brandId: "marlboro", triggers: ["stress"] });
+    expect(record).not.toHaveProperty("extra");
+  });
+
+  it("drops optional fields of the wrong type", () => {
+    const record = sanitizeRecord({ ...base, burned: "half", triggers: [1, 2], funded: [{ goalId: 1, amount: 1 }] });
+    expect(record).not.toHaveProperty("burned");
+    expect(record).not.toHaveProperty("triggers");
+    expect(record).not.toHaveProperty("funded");
+  });
+
+  it("rejects an unknown kind", () => {
+    expect(sanitizeRecord({ ...base, kind: "vape" })).toBeNull();
+  });
+});
+
+describe("loadSession", () => {
+  const rates = { autoMs: 60_000, puffMs: 15_000, idleMs: 300_000 };
+  const T0 = 1_000_000;
+  const puffing = startPuff(lightSession({ brandId: "marlboro", mode: "puff", rates, craving: null }, T0), T0 + 30_000);
+
+  it("picks up a lit session", () => {
+    const lit = lightSession({ brandId: "marlboro", mode: "auto", rates, craving: null }, T0);
+    store.set("smoke_session", JSON.stringify(lit));
+    expect(loadSession(T0 + 5_000)).toEqual(lit);
+  });
+
+  it("bills a puff left going at the puff rate, then ends it", () => {
+    store.set("smoke_session", JSON.stringify(puffing));
+    const loaded = loadSession(T0 + 33_000)!;
+    expect(loaded).toMatchObject({ status: "lit", puffing: false, inhaleMs: 3_000, settledAt: T0 + 33_000 });
+    expect(loaded.burned).toBeCloseTo(0.3);
+  });
+
+  it("hands back one that burned through mid-puff lit with nothing left, to be recorded on the next tick", () => {
+    store.set("smoke_session", JSON.stringify(puffing));
+    const loaded = loadSession(T0 + 60_000)!;
+    expect(loaded).toMatchObject({ status: "lit", burned: 1, puffing: false, settledAt: T0 + 43_500 });
+    expect(settle(loaded, T0 + 60_050)).toMatchObject({ status: "finished", endedAt: T0 + 43_500, inhaleMs: 13_500 });
+  });
+
+  it("drops a session that isn't lit or paused, or is malformed", () => {
+    store.set("smoke_session", JSON.stringify({ ...puffing, status: "finished" }));
+    expect(loadSession()).toBeNull();
+    store.set("smoke_session", JSON.stringify({ ...puffing, burned: 2 }));
+    expect(loadSession()).toBeNull();
+  });
+});
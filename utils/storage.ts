@@ -0,0 +1,431 @@
+import { SmokeRecord, AppSettings, ReminderWindow, QuitPlan, SavingsGoal, BreakRecord, PackPurchase, GoalFunding } from "../types";
+import { DEFAULT_SETTINGS, ALL_WEEKDAYS } from "../constants";
+import { ReminderState, EMPTY_REMINDER_STATE } from "./reminders";
+import { Session, isSessionActive, stopPuff } from "./session";
+
+// --- Keys & Versions ---
+
+const SETTINGS_KEY = "smoke_settings";
+const REMINDER_STATE_KEY = "smoke_reminder_state";
+const PLAN_KEY = "smoke_plan";
+const GOALS_KEY = "smoke_goals";
+const BREAKS_KEY = "smoke_breaks";
+const PURCHASES_KEY = "smoke_purchases";
+const SESSION_KEY = "smoke_session";
+const HISTORY_KEY = "smoke_history"; // legacy array, or the fallback when IndexedDB is missing
+const HISTORY_VERSION_KEY = "smoke_history_version";
+
+const DB_NAME = "smoke_db";
+const DB_VERSION = 1;
+const RECORD_STORE = "records";
+
+type Fields = Record<string, unknown>;
+type Migration = (value: Fields) => Fields;
+
+// Index n upgrades data from schema version n to n + 1. Append, never edit.
+const SETTINGS_MIGRATIONS: Migration[] = [
+  // 0 -> 1: bare object becomes an envelope; the fields themselves are unchanged
+  (s) => s,
+  // 1 -> 2: the single startTime/endTime pair becomes a list of weekday windows
+  ({ startTime, endTime, ...rest }) => ({
+    ...rest,
+    reminderWindows: [{ start: startTime ?? "09:00", end: endTime ?? "22:00", days: ALL_WEEKDAYS }],
+  }),
+];
+
+const RECORD_MIGRATIONS: Migration[] = [
+  // 0 -> 1: very old records may miss `timestamp`; their id was Date.now()
+  (r) => ({ ...r, timestamp: r.timestamp ?? r.id }),
+  // 1 -> 2: records gain a kind; everything before it was a virtual session
+  (r) => ({ ...r, kind: r.kind ?? "virtual" }),
+];
+
+export const SETTINGS_VERSION = SETTINGS_MIGRATIONS.length;
+export const HISTORY_VERSION = RECORD_MIGRATIONS.length;
+
+interface Envelope<T> {
+  version: number;
+  data: T;
+}
+
+const isFields = (v: unknown): v is Fields => !!v && typeof v === "object" && !Array.isArray(v);
+
+// Only objects get migrated; anything else is left for the sanitizers to reject.
+const migrate = (value: unknown, from: number, migrations: Migration[]): unknown =>
+  isFields(value) ? migrations.slice(from).reduce((v, m) => m(v), value) : value;
+
+// Anything that isn't our envelope is pre-versioning (version 0) data.
+const unwrap = (raw: unknown): Envelope<unknown> => {
+  if (raw && typeof raw === "object" && "version" in raw && "data" in raw) {
+    return raw as Envelope<unknown>;
+  }
+  return { version: 0, data: raw };
+};
+
+const readJSON = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error(`Corrupted ${key}, ignoring`, error);
+    return undefined;
+  }
+};
+
+// --- Validation ---
+
+const isTime = (v: unknown) => typeof v === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(v);
+const oneOf = (...values: string[]) => (v: unknown) => typeof v === "string" && values.includes(v);
+
+const isReminderWindow = (v: unknown) => {
+  const w = v as ReminderWindow;
+  return !!w && isTime(w.start) && isTime(w.end) &&
+    Array.isArray(w.days) && w.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+};
+
+// Extra checks beyond "same type as the default"
+const SETTINGS_CHECKS: Partial<Record<keyof AppSettings, (v: unknown) => boolean>> = {
+  reminderWindows: (v) => Array.isArray(v) && v.every(isReminderWindow),
+  intervalMinutes: (v) => typeof v === "number" && v > 0,
+  dailyReminderCap: (v) => typeof v === "number" && v >= 0,
+  smokingMode: oneOf("auto", "puff"),
+  breathingPattern: oneOf("off", "simple", "478", "box"),
+  customTriggers: (v) => Array.isArray(v) && v.every((t) => typeof t === "string"),
+  messageProvider: oneOf("offline", "gemini", "http"),
+  messageTone: oneOf("witty", "gentle", "coach"),
+  locale: oneOf("auto", "zh-CN", "en"),
+  currency: (v) => typeof v === "string" && /^[A-Z]{3}$/.test(v),
+  lastCigaretteAt: (v) => typeof v === "number" && v >= 0,
+  appMode: oneOf("smoke", "break"),
+  breakType: oneOf("walk", "stretch", "water", "air"),
+  breakMinutes: (v) => typeof v === "number" && v >= 1 && v <= 60,
+  soundVolume: (v) => typeof v === "number" && v >= 0 && v <= 1,
+  feedbackEffects: (v) => Array.isArray(v) && v.every(oneOf("ignition", "crackle", "exhale", "haptics")),
+  priceSource: oneOf("latest", "average"),
+};
+
+// Only called once the value has been checked against the field's default and checks.
+const setField = <K extends keyof AppSettings>(settings: AppSettings, key: K, value: unknown) => {
+  settings[key] = value as AppSettings[K];
+};
+
+// Keep every stored field that is valid and fall back to the default for the rest.
+export const sanitizeSettings = (raw: unknown): AppSettings => {
+  const settings: AppSettings = { ...DEFAULT_SETTINGS };
+  if (!raw || typeof raw !== "object") return settings;
+
+  const source = raw as Record<string, unknown>;
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]) {
+    const value = source[key];
+    const check = SETTINGS_CHECKS[key];
+    const valid = typeof value === typeof DEFAULT_SETTINGS[key] && (!check || check(value));
+    if (valid) setField(settings, key, value);
+  }
+  return settings;
+};
+
+const OPTIONAL_RECORD_NUMBERS = ["spentAmount", "pricePerStick", "durationMs", "burned", "puffCount", "inhaleMs", "breathCycles", "cravingBefore", "cravingAfter"] as const;
+
+export const sanitizeRecord = (raw: unknown): SmokeRecord | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+
+  const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+  if (!isNumber(r.id) || !isNumber(r.timestamp) || !isNumber(r.savedAmount) || typeof r.brandName !== "string") {
+    return null;
+  }
+  if (r.kind !== "virtual" && r.kind !== "real") return null;
+
+  const record: SmokeRecord = {
+    id: r.id,
+    kind: r.kind,
+    date: typeof r.date === "string" ? r.date : new Date(r.timestamp).toLocaleString(),
+    timestamp: r.timestamp,
+    brandName: r.brandName,
+    savedAmount: r.savedAmount,
+  };
+  if (typeof r.brandId === "string") record.brandId = r.brandId;
+  for (const key of OPTIONAL_RECORD_NUMBERS) {
+    if (isNumber(r[key])) record[key] = r[key];
+  }
+  if (Array.isArray(r.triggers) && r.triggers.every((t) => typeof t === "string")) {
+    record.triggers = r.triggers;
+  }
+  if (Array.isArray(r.funded)) {
+    const funded = r.funded.filter((f): f is GoalFunding => !!f && typeof f.goalId === "string" && isNumber(f.amount) && f.amount > 0);
+    if (funded.length > 0) record.funded = funded.map(({ goalId, amount }) => ({ goalId, amount }));
+  }
+  return record;
+};
+
+// Migrate then validate a batch of records, dropping the ones that can't be saved.
+export const upgradeRecords = (raw: unknown, fromVersion: number): SmokeRecord[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((r) => sanitizeRecord(migrate(r, fromVersion, RECORD_MIGRATIONS)))
+    .filter((r): r is SmokeRecord => r !== null)
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// --- Settings ---
+
+export const upgradeSettings = (raw: unknown, fromVersion: number) =>
+  sanitizeSettings(migrate(raw, fromVersion, SETTINGS_MIGRATIONS));
+
+export const loadSettings = (): AppSettings => {
+  const raw = readJSON(SETTINGS_KEY);
+  if (raw === undefined) return DEFAULT_SETTINGS;
+  const { version, data } = unwrap(raw);
+  return upgradeSettings(data, version);
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  const envelope: Envelope<AppSettings> = { version: SETTINGS_VERSION, data: settings };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(envelope));
+};
+
+// --- Quit Plan ---
+
+const isDay = (v: unknown): v is string => typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+export const sanitizePlan = (raw: unknown): QuitPlan | null => {
+  const p = raw as Partial<QuitPlan> | null;
+  if (!p || typeof p !== "object") return null;
+  if (typeof p.baselinePerDay !== "number" || p.baselinePerDay <= 0) return null;
+  if (!isDay(p.startDate) || !isDay(p.quitDate) || p.quitDate < p.startDate) return null;
+  return { baselinePerDay: p.baselinePerDay, startDate: p.startDate, quitDate: p.quitDate };
+};
+
+export const loadPlan = () => sanitizePlan(readJSON(PLAN_KEY));
+
+export const savePlan = (plan: QuitPlan | null) => {
+  if (plan) localStorage.setItem(PLAN_KEY, JSON.stringify(plan));
+  else localStorage.removeItem(PLAN_KEY);
+};
+
+// --- Savings Goals ---
+
+const sanitizeGoal = (raw: unknown): SavingsGoal | null => {
+  const g = raw as Partial<SavingsGoal> | null;
+  if (!g || typeof g !== "object") return null;
+  if (typeof g.id !== "string" || typeof g.name !== "string" || !g.name.trim()) return null;
+  if (typeof g.target !== "number" || g.target <= 0 || typeof g.saved !== "number" || g.saved < 0) return null;
+  if (typeof g.createdAt !== "number") return null;
+  return {
+    id: g.id,
+    name: g.name,
+    target: g.target,
+    saved: g.saved,
+    deadline: isDay(g.deadline) ? g.deadline : undefined,
+    createdAt: g.createdAt,
+    completedAt: typeof g.completedAt === "number" ? g.completedAt : undefined,
+  };
+};
+
+export const sanitizeGoals = (raw: unknown): SavingsGoal[] =>
+  Array.isArray(raw) ? raw.map(sanitizeGoal).filter((g): g is SavingsGoal => g !== null) : [];
+
+export const loadGoals = () => sanitizeGoals(readJSON(GOALS_KEY));
+
+export const saveGoals = (goals: SavingsGoal[]) => {
+  localStorage.setItem(GOALS_KEY, JSON.stringify(goals));
+};
+
+// --- Breaks ---
+
+const BREAK_TYPES = ["walk", "stretch", "water", "air"];
+
+const isBreakRecord = (v: unknown): v is BreakRecord => {
+  const b = v as BreakRecord;
+  return !!b && typeof b === "object" && typeof b.id === "number" && BREAK_TYPES.includes(b.type) &&
+    typeof b.timestamp === "number" && typeof b.durationMs === "number" && b.durationMs >= 0;
+};
+
+export const sanitizeBreaks = (raw: unknown): BreakRecord[] => Array.isArray(raw) ? raw.filter(isBreakRecord) : [];
+
+// Newest first, like the smoking history.
+export const loadBreaks = () => sanitizeBreaks(readJSON(BREAKS_KEY));
+
+export const saveBreaks = (breaks: BreakRecord[]) => {
+  localStorage.setItem(BREAKS_KEY, JSON.stringify(breaks));
+};
+
+// --- Pack Purchases ---
+
+const isPurchase = (v: unknown): v is PackPurchase => {
+  const p = v as PackPurchase;
+  return !!p && typeof p === "object" && typeof p.id === "number" && typeof p.brandId === "string" &&
+    Number.isInteger(p.packSize) && p.packSize > 0 && typeof p.price === "number" && p.price > 0 && isDay(p.date);
+};
+
+export const sanitizePurchases = (raw: unknown): PackPurchase[] => Array.isArray(raw) ? raw.filter(isPurchase) : [];
+
+export const loadPurchases = () => sanitizePurchases(readJSON(PURCHASES_KEY));
+
+export const savePurchases = (purchases: PackPurchase[]) => {
+  localStorage.setItem(PURCHASES_KEY, JSON.stringify(purchases));
+};
+
+// --- Active Session ---
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+const sanitizeSession = (raw: unknown): Session | null => {
+  const s = raw as Session | null;
+  if (!s || typeof s !== "object" || !isSessionActive(s)) return null;
+  if (typeof s.brandId !== "string" || (s.mode !== "auto" && s.mode !== "puff")) return null;
+  const r = s.rates;
+  if (!r || typeof r !== "object" || ![r.autoMs, r.puffMs, r.idleMs].every((ms) => isFiniteNumber(ms) && ms > 0)) return null;
+  if (![s.startedAt, s.settledAt, s.activeMs, s.puffCount, s.inhaleMs].every(isFiniteNumber)) return null;
+  if (!isFiniteNumber(s.burned) || s.burned < 0 || s.burned > 1) return null;
+  const c = s.craving;
+  const craving = c && typeof c === "object" && isFiniteNumber(c.intensity) && Array.isArray(c.triggers)
+    ? { intensity: c.intensity, triggers: c.triggers.filter((t) => typeof t === "string") }
+    : null;
+  return {
+    status: s.status,
+    brandId: s.brandId,
+    mode: s.mode,
+    rates: { autoMs: r.autoMs, puffMs: r.puffMs, idleMs: r.idleMs },
+    startedAt: s.startedAt,
+    settledAt: s.settledAt,
+    burned: s.burned,
+    activeMs: s.activeMs,
+    puffing: s.status === "lit" && s.puffing === true,
+    puffCount: s.puffCount,
+    inhaleMs: s.inhaleMs,
+    craving,
+  };
+};
+
+// The lit or paused session, kept so a reload picks it back up. Nobody is still holding the
+// button after a reload, so a puff that was going is settled at the puff rate and ended. One
+// that burned through meanwhile comes back lit with nothing left, for the burn loop to record.
+export const loadSession = (now = Date.now()): Session | null => {
+  const session = sanitizeSession(readJSON(SESSION_KEY));
+  if (!session?.puffing) return session;
+  const settled = stopPuff(session, now);
+  return settled.status === "finished" ? { ...settled, status: "lit", endedAt: undefined } : settled;
+};
+
+export const saveSession = (session: Session | null) => {
+  if (isSessionActive(session)) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  else localStorage.removeItem(SESSION_KEY);
+};
+
+// --- Reminder State ---
+
+export const loadReminderState = (): ReminderState => {
+  const raw = readJSON(REMINDER_STATE_KEY) as Partial<ReminderState> | undefined;
+  if (!raw || typeof raw !== "object") return EMPTY_REMINDER_STATE;
+  return {
+    sent: Array.isArray(raw.sent) ? raw.sent.filter((t) => typeof t === "number") : [],
+    snoozeUntil: typeof raw.snoozeUntil === "number" ? raw.snoozeUntil : 0,
+  };
+};
+
+export const saveReminderState = (state: ReminderState) => {
+  localStorage.setItem(REMINDER_STATE_KEY, JSON.stringify(state));
+};
+
+// --- History (IndexedDB, localStorage fallback) ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!("indexedDB" in window)) {
+        reject(new Error("IndexedDB unavailable"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(RECORD_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const writeRecords = async (db: IDBDatabase, records: SmokeRecord[], clear = false) => {
+  const tx = db.transaction(RECORD_STORE, "readwrite");
+  const store = tx.objectStore(RECORD_STORE);
+  if (clear) store.clear();
+  records.forEach((r) => store.put(r));
+  await transactionDone(tx);
+};
+
+// The localStorage copy, written whenever IndexedDB fails.
+export const loadFallbackHistory = () => {
+  const raw = readJSON(HISTORY_KEY);
+  if (raw === undefined) return [];
+  const { version, data } = unwrap(raw);
+  return upgradeRecords(data, version);
+};
+
+const saveFallbackHistory = (records: SmokeRecord[]) => {
+  const envelope: Envelope<SmokeRecord[]> = { version: HISTORY_VERSION, data: records };
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(envelope));
+};
+
+// Newest first. Moves any localStorage history into IndexedDB on first run.
+export const loadHistory = async (): Promise<SmokeRecord[]> => {
+  let db: IDBDatabase;
+  try {
+    db = await openDB();
+  } catch (error) {
+    console.error("Falling back to localStorage history", error);
+    return loadFallbackHistory();
+  }
+
+  const legacy = loadFallbackHistory();
+  if (legacy.length > 0) {
+    await writeRecords(db, legacy);
+    localStorage.removeItem(HISTORY_KEY);
+  }
+
+  const storedVersion = Number(localStorage.getItem(HISTORY_VERSION_KEY) ?? HISTORY_VERSION);
+  const raw = await requestToPromise(db.transaction(RECORD_STORE).objectStore(RECORD_STORE).getAll());
+  const records = upgradeRecords(raw, storedVersion);
+
+  if (storedVersion < HISTORY_VERSION) await writeRecords(db, records, true);
+  localStorage.setItem(HISTORY_VERSION_KEY, String(HISTORY_VERSION));
+  return records;
+};
+
+// Persist one new record. `all` is the full list, used only by the fallback store.
+export const saveRecord = async (record: SmokeRecord, all: SmokeRecord[]) => {
+  try {
+    await writeRecords(await openDB(), [record]);
+  } catch (error) {
+    console.error("IndexedDB write failed", error);
+    saveFallbackHistory(all);
+  }
+};
+
+// Overwrite the whole history, e.g. after an import or bulk edit.
+export const replaceHistory = async (records: SmokeRecord[]) => {
+  try {
+    await writeRecords(await openDB(), records, true);
+  } catch (error) {
+    console.error("IndexedDB write failed", error);
+    saveFallbackHistory(records);
+  }
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { SmokeRecord } from "../types";
+import { DEFAULT_SETTINGS } from "../constants";
+import {
+  EMPTY_SYNC_STATE,
+  SyncPull,
+  SyncState,
+  afterPull,
+  buildPush,
+  diffHistory,
+  isEmptyPush,
+  markPushed,
+  mergeRecords,
+  mergeSettings,
+  queueChanges,
+  queueSettings,
+  sharedSettings,
+} from "./sync";
+
+const record = (id: number, patch: Partial<SmokeRecord> = {}): SmokeRecord =>
+  ({ id, kind: "virtual", date: "", timestamp: id, brandName: "A", savedAmount: 1, ...patch });
+
+const pull = (patch: Partial<SyncPull> = {}): SyncPull => ({ cursor: 10, records: [], deleted: [], settings: null, ...patch });
+
+describe("queue", () => {
+  it("spots added, edited and deleted records", () => {
+    const kept = record(1);
+    const edited = record(2);
+    const before = [kept, edited, record(3)];
+    const after = [kept, { ...edited, savedAmount: 2 }, record(4)];
+    expect(diffHistory(before, after)).toEqual({ changed: [2, 4], deleted: [3] });
+  });
+
+  it("keeps only the last thing that happened to a record", () => {
+    let state = queueChanges(EMPTY_SYNC_STATE, { changed: [1, 2], deleted: [] });
+    state = queueChanges(state, { changed: [], deleted: [2] });
+    expect(state).toMatchObject({ changed: [1], deleted: [2] });
+    state = queueChanges(state, { changed: [2], deleted: [] });
+    expect(state).toMatchObject({ changed: [1, 2], deleted: [] });
+  });
+});
+
+describe("mergeRecords", () => {
+  it("applies pulled edits and deletes, newest first", () => {
+    const local = [record(3), record(2), record(1)];
+    const merged = mergeRecords(local, pull({ records: [record(2, { savedAmount: 5 }), record(4)], deleted: [1] }), EMPTY_SYNC_STATE);
+    expect(merged.map((r) => r.id)).toEqual([4, 3, 2]);
+    expect(merged.find((r) => r.id === 2)?.savedAmount).toBe(5);
+  });
+
+  it("keeps local changes still waiting to be pushed", () => {
+    const state: SyncState = { ...EMPTY_SYNC_STATE, changed: [2], deleted: [3] };
+    const local = [record(2, { savedAmount: 9 }), record(1)];
+    const merged = mergeRecords(local, pull({ records: [record(2), record(3)], deleted: [2] }), state);
+    expect(merged.map((r) => [r.id, r.savedAmount])).toEqual([[2, 9], [1, 1]]);
+  });
+});
+
+describe("settings", () => {
+  it("never shares the device-only fields", () => {
+    const shared = sharedSettings({ ...DEFAULT_SETTINGS, geminiApiKey: "secret", syncEndpoint: "http://x", notificationsEnabled: true });
+    expect(shared).not.toHaveProperty("geminiApiKey");
+    expect(shared).not.toHaveProperty("syncEndpoint");
+    expect(shared).not.toHaveProperty("notificationsEnabled");
+  });
+
+  it("takes newer remote settings but keeps the device-only fields", () => {
+    const local = { ...DEFAULT_SETTINGS, geminiApiKey: "secret", intervalMinutes: 30 };
+    const merged = mergeSettings(local, { ...EMPTY_SYNC_STATE, settingsUpdatedAt: 100 }, { updatedAt: 200, data: { intervalMinutes: 90, geminiApiKey: "other" } });
+    expect(merged).toMatchObject({ intervalMinutes: 90, geminiApiKey: "secret" });
+  });
+
+  it("ignores remote settings older than the local ones", () => {
+    expect(mergeSettings(DEFAULT_SETTINGS, { ...EMPTY_SYNC_STATE, settingsUpdatedAt: 300 }, { updatedAt: 200, data: {} })).toBeNull();
+  });
+});
+
+describe("afterPull", () => {
+  it("adopts the pulled settings' time when they won", () => {
+    const state = queueSettings(EMPTY_SYNC_STATE, 100);
+    const settings = { updatedAt: 200, data: {} };
+    expect(afterPull(state, pull({ settings }), true)).toMatchObject({ cursor: 10, settingsUpdatedAt: 200, settingsPending: false });
+  });
+
+  it("offers this device's settings to a server that has none", () => {
+    expect(afterPull(EMPTY_SYNC_STATE, pull(), false, 500)).toMatchObject({ cursor: 10, settingsUpdatedAt: 500, settingsPending: true });
+  });
+
+  it("only moves the cursor otherwise", () => {
+    const state = { ...EMPTY_SYNC_STATE, cursor: 4 };
+    expect(afterPull(state, pull(), false)).toEqual({ ...state, cursor: 10 });
+  });
+});
+
+describe("pushing", () => {
+  it("sends the queued records, deletes and settings", () => {
+    const state: SyncState = { ...queueSettings(EMPTY_SYNC_STATE, 100), changed: [2], deleted: [7] };
+    const push = buildPush(state, [record(2), record(1)], DEFAULT_SETTINGS);
+    expect(push.records.map((r) => r.id)).toEqual([2]);
+    expect(push.deleted).toEqual([7]);
+    expect(push.settings?.updatedAt).toBe(100);
+    expect(isEmptyPush(buildPush(EMPTY_SYNC_STATE, [record(1)], DEFAULT_SETTINGS))).toBe(true);
+  });
+
+  it("keeps anything queued while the push was in flight", () => {
+    const sent = buildPush({ ...queueSettings(EMPTY_SYNC_STATE, 100), changed: [1] }, [record(1)], DEFAULT_SETTINGS);
+    const meanwhile: SyncState = { ...queueSettings(EMPTY_SYNC_STATE, 200), changed: [1, 2] };
+    expect(markPushed(meanwhile, sent)).toMatchObject({ changed: [2], settingsPending: true });
+  });
+
+  it("clears the settings once the version sent is the latest", () => {
+    const state = { ...queueSettings(EMPTY_SYNC_STATE, 100), changed: [1] };
+    expect(markPushed(state, buildPush(state, [record(1)], DEFAULT_SETTINGS))).toMatchObject({ changed: [], settingsPending: false });
+  });
+});
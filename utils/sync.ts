@@ -0,0 +1,192 @@
+import { AppSettings, SmokeRecord } from "../types";
+import { sanitizeSettings, upgradeRecords, HISTORY_VERSION } from "./storage";
+
+// Optional sync with a self-hosted server, API in the README. Records merge by id,
+// settings go to whichever device changed them last, and changes made offline wait
+// in the queue until the next sync gets through.
+
+export type SyncStatus = "pending" | "syncing" | "synced" | "offline" | "error";
+
+// --- Local State ---
+
+const STATE_KEY = "smoke_sync";
+
+export interface SyncState {
+  cursor: number; // the server's change counter as of the last pull
+  changed: number[]; // ids of records added or edited since the last push
+  deleted: number[];
+  settingsUpdatedAt: number; // when the shared settings last changed here, or the pulled version's time
+  settingsPending: boolean;
+  lastSyncAt: number; // 0 = never synced with this endpoint
+}
+
+export const EMPTY_SYNC_STATE: SyncState = { cursor: 0, changed: [], deleted: [], settingsUpdatedAt: 0, settingsPending: false, lastSyncAt: 0 };
+
+const isIdList = (v: unknown): v is number[] => Array.isArray(v) && v.every((id) => typeof id === "number");
+
+export const loadSyncState = (): SyncState => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STATE_KEY) ?? "null");
+    if (!raw || typeof raw !== "object") return EMPTY_SYNC_STATE;
+    return {
+      cursor: typeof raw.cursor === "number" ? raw.cursor : 0,
+      changed: isIdList(raw.changed) ? raw.changed : [],
+      deleted: isIdList(raw.deleted) ? raw.deleted : [],
+      settingsUpdatedAt: typeof raw.settingsUpdatedAt === "number" ? raw.settingsUpdatedAt : 0,
+      settingsPending: raw.settingsPending === true,
+      lastSyncAt: typeof raw.lastSyncAt === "number" ? raw.lastSyncAt : 0,
+    };
+  } catch {
+    return EMPTY_SYNC_STATE;
+  }
+};
+
+export const saveSyncState = (state: SyncState) => {
+  localStorage.setItem(STATE_KEY, JSON.stringify(state));
+};
+
+export const hasPending = (state: SyncState) =>
+  state.changed.length > 0 || state.deleted.length > 0 || state.settingsPending;
+
+// --- Queue ---
+
+export interface HistoryChanges {
+  changed: number[];
+  deleted: number[];
+}
+
+// Records added, edited or removed between two versions of the history. Edits
+// always make a new object, so identity is enough to spot them.
+export const diffHistory = (before: SmokeRecord[], after: SmokeRecord[]): HistoryChanges => {
+  const old = new Map(before.map((r) => [r.id, r]));
+  const kept = new Set(after.map((r) => r.id));
+  return {
+    changed: after.filter((r) => old.get(r.id) !== r).map((r) => r.id),
+    deleted: before.filter((r) => !kept.has(r.id)).map((r) => r.id),
+  };
+};
+
+const union = (a: number[], b: number[]) => [...new Set([...a, ...b])];
+const without = (a: number[], b: number[]) => a.filter((id) => !b.includes(id));
+
+// A record deleted after an edit only needs the delete pushed, and the other way round.
+export const queueChanges = (state: SyncState, { changed, deleted }: HistoryChanges): SyncState => ({
+  ...state,
+  changed: union(without(state.changed, deleted), changed),
+  deleted: union(without(state.deleted, changed), deleted),
+});
+
+export const queueSettings = (state: SyncState, now = Date.now()): SyncState => ({ ...state, settingsUpdatedAt: now, settingsPending: true });
+
+// --- Settings ---
+
+// The API key never leaves the device, and notification permission is per browser
+const LOCAL_SETTINGS: (keyof AppSettings)[] = ["syncEndpoint", "geminiApiKey", "notificationsEnabled"];
+
+export const sharedSettings = (settings: AppSettings) => {
+  const shared: Partial<AppSettings> = { ...settings };
+  for (const key of LOCAL_SETTINGS) delete shared[key];
+  return shared;
+};
+
+export const sharedSettingsChanged = (a: AppSettings, b: AppSettings) =>
+  JSON.stringify(sharedSettings(a)) !== JSON.stringify(sharedSettings(b));
+
+// --- Merging ---
+
+export interface SyncedSettings {
+  updatedAt: number; // device clock of the change
+  data: Partial<AppSettings>;
+}
+
+export interface SyncPull {
+  cursor: number;
+  records: SmokeRecord[]; // added or edited on any device since the cursor
+  deleted: number[];
+  settings: SyncedSettings | null; // only when they changed since the cursor
+}
+
+// Pulled records replace the local ones with the same id, except where a local change is
+// still queued: that one is pushed right after the pull and wins.
+export const mergeRecords = (local: SmokeRecord[], pull: SyncPull, state: SyncState) => {
+  const queued = new Set([...state.changed, ...state.deleted]);
+  const gone = new Set(pull.deleted.filter((id) => !queued.has(id)));
+  const incoming = new Map(pull.records.filter((r) => !queued.has(r.id) && !gone.has(r.id)).map((r) => [r.id, r]));
+  return [...local.filter((r) => !gone.has(r.id) && !incoming.has(r.id)), ...incoming.values()]
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Last writer wins; null keeps the local settings. The device-only fields never change.
+export const mergeSettings = (local: AppSettings, state: SyncState, remote: SyncedSettings | null): AppSettings | null => {
+  if (!remote || remote.updatedAt <= state.settingsUpdatedAt) return null;
+  const kept = Object.fromEntries(LOCAL_SETTINGS.map((key) => [key, local[key]]));
+  return sanitizeSettings({ ...local, ...remote.data, ...kept });
+};
+
+// Move the cursor and adopt the pulled settings' time if they won. A server that has
+// never seen settings gets this device's.
+export const afterPull = (state: SyncState, pull: SyncPull, settingsWon: boolean, now = Date.now()): SyncState => {
+  if (settingsWon) return { ...state, cursor: pull.cursor, settingsUpdatedAt: pull.settings!.updatedAt, settingsPending: false };
+  if (state.cursor === 0 && !pull.settings) return { ...queueSettings(state, state.settingsUpdatedAt || now), cursor: pull.cursor };
+  return { ...state, cursor: pull.cursor };
+};
+
+// --- Pushing ---
+
+export interface SyncPush {
+  records: SmokeRecord[];
+  deleted: number[];
+  settings: SyncedSettings | null;
+}
+
+export const buildPush = (state: SyncState, history: SmokeRecord[], settings: AppSettings): SyncPush => ({
+  records: history.filter((r) => state.changed.includes(r.id)),
+  deleted: state.deleted,
+  settings: state.settingsPending ? { updatedAt: state.settingsUpdatedAt, data: sharedSettings(settings) } : null,
+});
+
+export const isEmptyPush = (push: SyncPush) => push.records.length === 0 && push.deleted.length === 0 && !push.settings;
+
+// Takes what went out off the queue; anything queued while the request ran stays.
+export const markPushed = (state: SyncState, push: SyncPush): SyncState => ({
+  ...state,
+  changed: without(state.changed, push.records.map((r) => r.id)),
+  deleted: without(state.deleted, push.deleted),
+  settingsPending: state.settingsPending && push.settings?.updatedAt !== state.settingsUpdatedAt,
+});
+
+// --- Transport ---
+
+const TIMEOUT_MS = 10 * 1000;
+
+const changesUrl = (endpoint: string) => `${endpoint.replace(/\/+$/, "")}/changes`;
+
+const request = async (url: string, init: RequestInit = {}) => {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`Sync endpoint returned ${response.status}`);
+  return response.json();
+};
+
+const isSyncedSettings = (v: unknown): v is SyncedSettings => {
+  const s = v as SyncedSettings;
+  return !!s && typeof s === "object" && typeof s.updatedAt === "number" && !!s.data && typeof s.data === "object";
+};
+
+export const pullChanges = async (endpoint: string, since: number): Promise<SyncPull> => {
+  const data = await request(`${changesUrl(endpoint)}?since=${since}`);
+  if (typeof data?.cursor !== "number") throw new Error("Malformed sync response");
+  return {
+    cursor: data.cursor,
+    records: upgradeRecords(data.records, HISTORY_VERSION),
+    deleted: isIdList(data.deleted) ? data.deleted : [],
+    settings: isSyncedSettings(data.settings) ? data.settings : null,
+  };
+};
+
+export const pushChanges = async (endpoint: string, push: SyncPush) => {
+  await request(changesUrl(endpoint), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(push),
+  });
+};
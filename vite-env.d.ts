@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+// Periodic Background Sync is Chromium-only and not in the DOM typings yet.
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval?: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+  getTags(): Promise<string[]>;
+}
+
+interface ServiceWorkerRegistration {
+  readonly periodicSync?: PeriodicSyncManager;
+}
+
+// Older Safari only has the prefixed constructor.
+interface Window {
+  webkitAudioContext?: typeof AudioContext;
+}
@@ -1,19 +1,35 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// Lists the hashed bundles for public/sw.js, which pre-caches them on install. The
+// worker imports this file, so a build with different bundles also updates the worker.
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.values(bundle)
+      .map((file) => file.fileName)
+      .filter((name) => !name.endsWith('.map') && name !== 'index.html')
+      .sort()
+      .map((name) => `/${name}`);
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.js',
+      source: `self.PRECACHE = ${JSON.stringify({ version, files })};\n`,
+    });
+  },
+});
+
+export default defineConfig(() => {
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), precacheManifest()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),